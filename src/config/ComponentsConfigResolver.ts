@@ -0,0 +1,103 @@
+import * as path from 'path';
+import { NuxtConfigLoader } from './NuxtConfigLoader';
+import type { NuxtConfigObject, NuxtLayer, ResolvedComponentsDir } from '../types';
+
+/**
+ * Entrée de `components.dirs` dont le chemin est connu
+ */
+type ComponentsDirOptions = NuxtConfigObject & { path: string };
+
+/**
+ * Resolves the `components` option of nuxt.config into the directories Nuxt actually scans
+ */
+export class ComponentsConfigResolver {
+    /**
+     * Extensions par défaut de Nuxt (`nuxt.options.extensions`)
+     */
+    static readonly defaultExtensions = ['js', 'jsx', 'mjs', 'ts', 'tsx', 'vue'];
+
+    /**
+     * Retourne les dossiers de composants, du plus profond au moins profond
+     * (un fichier appartient au dossier le plus spécifique qui le contient)
+     */
+    static resolve(config: NuxtConfigObject, rootDir: string, srcDir: string = rootDir): ResolvedComponentsDir[] {
+        const option = config.components;
+
+        const globalOption = NuxtConfigLoader.isObject(option) ? option.global : undefined;
+
+        return this.normalizeDirs(option, rootDir, srcDir)
+            .filter(dir => dir.enabled !== false)
+            .map(dir => ({
+                path: dir.path,
+                prefix: typeof dir.prefix === 'string' ? dir.prefix : '',
+                pathPrefix: dir.pathPrefix !== false,
+                global: !!(dir.global ?? globalOption ?? false),
+                island: !!dir.island,
+                extensions: (Array.isArray(dir.extensions) ? dir.extensions : this.defaultExtensions)
+                    .filter((extension: unknown): extension is string => typeof extension === 'string')
+                    .map(extension => extension.replace(/^\./, ''))
+            }))
+            .sort((a, b) => this.getDepth(b.path) - this.getDepth(a.path));
+    }
+
+    /**
+     * Retourne les dossiers de composants de tous les layers, du plus profond au moins profond
+     */
+    static resolveLayers(layers: NuxtLayer[]): ResolvedComponentsDir[] {
+        return layers
+            .flatMap(layer => this.resolve(layer.config, layer.rootDir, layer.srcDir))
+            .sort((a, b) => this.getDepth(b.path) - this.getDepth(a.path));
+    }
+
+    /**
+     * Équivalent de `normalizeDirs` du module components de Nuxt
+     */
+    private static normalizeDirs(option: unknown, rootDir: string, srcDir: string): ComponentsDirOptions[] {
+        if (Array.isArray(option)) {
+            return option.flatMap(dir => this.normalizeDirs(dir, rootDir, srcDir));
+        }
+
+        if (option === true || option === undefined) {
+            return [
+                { path: path.join(srcDir, 'components', 'islands'), island: true },
+                { path: path.join(srcDir, 'components', 'global'), global: true },
+                { path: path.join(srcDir, 'components') }
+            ];
+        }
+
+        if (typeof option === 'string') {
+            return [{ path: NuxtConfigLoader.resolveAlias(option, rootDir, srcDir) }];
+        }
+
+        if (!NuxtConfigLoader.isObject(option)) {
+            return [];
+        }
+
+        // `components: { global: true }` sans `dirs` conserve les dossiers par défaut
+        if (option.dirs === undefined && typeof option.path !== 'string') {
+            return this.normalizeDirs(true, rootDir, srcDir);
+        }
+
+        const dirs: unknown[] = Array.isArray(option.dirs) ? option.dirs : [option];
+
+        return dirs
+            .map(dir => typeof dir === 'string' ? { path: dir } : dir)
+            .filter((dir): dir is ComponentsDirOptions => NuxtConfigLoader.isObject(dir) && typeof dir.path === 'string')
+            .map(dir => ({ ...dir, path: NuxtConfigLoader.resolveAlias(dir.path, rootDir, srcDir) }));
+    }
+
+    /**
+     * Indique si un fichier est un composant de ce dossier
+     */
+    static isComponentFile(filePath: string, dir: ResolvedComponentsDir): boolean {
+        if (!filePath.startsWith(dir.path + path.sep) || /\.d\.(c|m)?ts$/.test(filePath)) {
+            return false;
+        }
+
+        return dir.extensions.includes(path.extname(filePath).slice(1));
+    }
+
+    private static getDepth(dirPath: string): number {
+        return dirPath.split(/[\\/]/).filter(Boolean).length;
+    }
+}
@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ComponentsConfigResolver } from './ComponentsConfigResolver';
+import { NuxtConfigLoader } from './NuxtConfigLoader';
+import type { NuxtConfigObject, NuxtDirectories, NuxtFileRoles, NuxtLayer } from '../types';
+
+/**
+ * Computes the directories Nuxt actually scans (`srcDir`, `dir.*`, Nuxt 4 `app/` directory)
+ * and classifies files accordingly
+ */
+export class DirectoryResolver {
+    /**
+     * Retourne la version majeure de Nuxt utilisée par un projet (3 par défaut)
+     */
+    static getNuxtMajorVersion(rootDir: string, config: NuxtConfigObject): number {
+        if (NuxtConfigLoader.isObject(config.future) && config.future.compatibilityVersion === 4) {
+            return 4;
+        }
+
+        // Version installée, en remontant pour les monorepos dont les dépendances sont hissées
+        let currentDir = rootDir;
+
+        while (true) {
+            const installed = this.readMajorVersion(path.join(currentDir, 'node_modules', 'nuxt', 'package.json'), 'version');
+
+            if (installed) {
+                return installed;
+            }
+
+            const parentDir = path.dirname(currentDir);
+
+            if (parentDir === currentDir) {
+                break;
+            }
+
+            currentDir = parentDir;
+        }
+
+        // Version déclarée dans package.json si les dépendances ne sont pas installées
+        return this.readMajorVersion(path.join(rootDir, 'package.json'), 'dependencies.nuxt') ||
+            this.readMajorVersion(path.join(rootDir, 'package.json'), 'devDependencies.nuxt') ||
+            3;
+    }
+
+    private static readMajorVersion(packageJsonPath: string, field: string): number | null {
+        try {
+            const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+
+            const value = field.split('.').reduce((current, key) => current?.[key], packageJson);
+
+            const match = typeof value === 'string' ? value.match(/(\d+)\./) : null;
+
+            return match ? Number(match[1]) : null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Résout `srcDir` comme Nuxt : option explicite, sinon `app/` en Nuxt 4 s'il existe et n'est pas vide
+     */
+    static resolveSrcDir(rootDir: string, config: NuxtConfigObject, nuxtMajorVersion: number): string {
+        if (typeof config.srcDir === 'string') {
+            return NuxtConfigLoader.resolveAlias(config.srcDir, rootDir);
+        }
+
+        if (nuxtMajorVersion < 4) {
+            return rootDir;
+        }
+
+        const appDir = path.join(rootDir, 'app');
+
+        let entries: string[];
+
+        try {
+            entries = fs.readdirSync(appDir);
+        } catch (error) {
+            return rootDir;
+        }
+
+        const hasSources = entries.some(entry => entry !== 'spa-loading-template.html' && !entry.startsWith('router.options'));
+
+        // Un projet Nuxt 3 migré garde son app.vue à la racine
+        if (!hasSources && ['app.vue', 'App.vue'].some(file => fs.existsSync(path.join(rootDir, file)))) {
+            return rootDir;
+        }
+
+        return appDir;
+    }
+
+    /**
+     * Calcule les dossiers d'un layer
+     */
+    static resolve(rootDir: string, config: NuxtConfigObject, nuxtMajorVersion: number = 3): NuxtDirectories {
+        const srcDir = this.resolveSrcDir(rootDir, config, nuxtMajorVersion);
+
+        const dir = NuxtConfigLoader.isObject(config.dir) ? config.dir : {};
+
+        const resolvePath = (dirPath: string) => NuxtConfigLoader.resolveAlias(dirPath, rootDir, srcDir);
+
+        const resolveDir = (value: unknown, fallback: string) => resolvePath(typeof value === 'string' ? value : fallback);
+
+        const stringsOf = (value: unknown): string[] | undefined =>
+            Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : undefined;
+
+        // imports.dirs s'ajoute aux dossiers scannés par défaut (`composables/**` → `composables`)
+        const importDirs = (stringsOf(NuxtConfigLoader.isObject(config.imports) ? config.imports.dirs : undefined) || []).map(importDir => importDir.replace(/\/\*.*$/, ''));
+
+        const storesDirs = stringsOf(NuxtConfigLoader.isObject(config.pinia) ? config.pinia.storesDirs : undefined) || ['stores'];
+
+        const utils = [resolvePath('utils')];
+
+        // Nuxt 4 : `shared/` est à la racine du projet et ses utilitaires sont auto-importés
+        if (nuxtMajorVersion >= 4) {
+            utils.push(path.join(NuxtConfigLoader.resolveAlias(typeof dir.shared === 'string' ? dir.shared : 'shared', rootDir, rootDir), 'utils'));
+        }
+
+        return {
+            rootDir,
+            srcDir,
+            pages: resolveDir(dir.pages, 'pages'),
+            layouts: resolveDir(dir.layouts, 'layouts'),
+            middleware: resolveDir(dir.middleware, 'middleware'),
+            plugins: resolveDir(dir.plugins, 'plugins'),
+            composables: [resolvePath('composables'), ...importDirs.map(resolvePath)],
+            utils,
+            stores: storesDirs.map(resolvePath),
+            server: typeof config.serverDir === 'string'
+                ? NuxtConfigLoader.resolveAlias(config.serverDir, rootDir, srcDir)
+                : path.join(nuxtMajorVersion >= 4 ? rootDir : srcDir, 'server')
+        };
+    }
+
+    /**
+     * Classe un fichier selon les dossiers du layer auquel il appartient
+     */
+    static getFileRoles(
+        layers: NuxtLayer[],
+        filePath: string,
+        componentsDirs = ComponentsConfigResolver.resolveLayers(layers)
+    ): NuxtFileRoles {
+        const isWithin = (dir: string) => filePath.startsWith(dir + path.sep);
+
+        const roles: NuxtFileRoles = {
+            component: false,
+            page: false,
+            layout: false,
+            middleware: false,
+            plugin: false,
+            composable: false,
+            util: false,
+            store: false
+        };
+
+        roles.component = componentsDirs.some(dir => ComponentsConfigResolver.isComponentFile(filePath, dir));
+
+        // Un fichier appartient au layer le plus profond qui le contient
+        const layer = layers
+            .filter(candidate => isWithin(candidate.rootDir))
+            .sort((a, b) => b.rootDir.length - a.rootDir.length)[0];
+
+        if (!layer) {
+            return roles;
+        }
+
+        const { dirs } = layer;
+
+        roles.page = isWithin(dirs.pages);
+        roles.layout = isWithin(dirs.layouts);
+        roles.middleware = isWithin(dirs.middleware);
+        roles.plugin = isWithin(dirs.plugins);
+        roles.composable = dirs.composables.some(isWithin);
+        roles.util = dirs.utils.some(isWithin);
+        roles.store = dirs.stores.some(isWithin);
+
+        return roles;
+    }
+
+    /**
+     * Empreinte des dossiers de tous les layers, pour détecter qu'un index doit être reconstruit
+     */
+    static getFingerprint(layers: NuxtLayer[]): string {
+        const content = JSON.stringify({
+            dirs: layers.map(layer => layer.dirs),
+            components: ComponentsConfigResolver.resolveLayers(layers)
+        });
+
+        return crypto.createHash('sha1').update(content).digest('hex');
+    }
+}
@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { NuxtConfigLoader } from './NuxtConfigLoader';
+import { DirectoryResolver } from './DirectoryResolver';
+import type { NuxtLayer } from '../types';
+
+/**
+ * Resolves the `extends` chain of a Nuxt project into its layers, ordered by priority.
+ * Comme Nuxt : le projet, puis les layers de `~~/layers` (Z avant A), puis les entrées de `extends` dans l'ordre.
+ */
+export class LayerResolver {
+    /**
+     * Sources distantes téléchargées par Nuxt au build, non disponibles localement
+     */
+    private static readonly remoteSourceRegex = /^(github|gh|gitlab|bitbucket|sourcehut|https?):/;
+
+    /**
+     * Retourne les layers d'un projet, le projet en premier
+     */
+    static resolve(rootDir: string): NuxtLayer[] {
+        const layers: NuxtLayer[] = [];
+
+        this.collect(rootDir, layers, new Set(), null);
+
+        return layers.map((layer, index) => ({ ...layer, priority: index }));
+    }
+
+    /**
+     * @param nuxtMajorVersion version du projet, null pour le projet lui-même (les layers suivent le projet)
+     */
+    private static collect(layerDir: string, layers: NuxtLayer[], visited: Set<string>, nuxtMajorVersion: number | null): void {
+        const rootDir = path.resolve(layerDir);
+
+        if (visited.has(rootDir) || !fs.existsSync(rootDir)) {
+            return;
+        }
+
+        visited.add(rootDir);
+
+        const configFile = NuxtConfigLoader.findConfigFile(rootDir);
+        const config = configFile ? NuxtConfigLoader.load(rootDir) : {};
+
+        const isProject = nuxtMajorVersion === null;
+        const majorVersion = nuxtMajorVersion ?? DirectoryResolver.getNuxtMajorVersion(rootDir, config);
+        const dirs = DirectoryResolver.resolve(rootDir, config, majorVersion);
+
+        layers.push({ rootDir, srcDir: dirs.srcDir, dirs, configFile, config, priority: 0 });
+
+        const sources = [
+            ...(isProject ? this.findAutoRegisteredLayers(rootDir) : []),
+            ...this.getExtendsSources(config.extends)
+                .map(source => this.resolveSource(source, rootDir))
+                .filter((dir): dir is string => !!dir)
+        ];
+
+        for (const source of sources) {
+            this.collect(source, layers, visited, majorVersion);
+        }
+    }
+
+    /**
+     * Layers locaux enregistrés automatiquement depuis `~~/layers`
+     */
+    private static findAutoRegisteredLayers(rootDir: string): string[] {
+        const layersDir = path.join(rootDir, 'layers');
+
+        try {
+            return fs.readdirSync(layersDir, { withFileTypes: true })
+                .filter(entry => entry.isDirectory())
+                .map(entry => entry.name)
+                .sort()
+                .reverse()
+                .map(name => path.join(layersDir, name));
+        } catch (error) {
+            return [];
+        }
+    }
+
+    /**
+     * `extends: 'x'`, `extends: ['x', ['y', { ... }]]`
+     */
+    private static getExtendsSources(option: unknown): string[] {
+        const entries: unknown[] = Array.isArray(option) ? option : [option];
+
+        return entries
+            // `[source, options]`
+            .map(entry => Array.isArray(entry) ? entry[0] as unknown : entry)
+            .filter((source): source is string => typeof source === 'string' && source.length > 0);
+    }
+
+    /**
+     * Résout une source de layer en dossier : chemin local ou paquet de node_modules
+     */
+    private static resolveSource(source: string, layerDir: string): string | null {
+        if (this.remoteSourceRegex.test(source)) {
+            return null;
+        }
+
+        if (source.startsWith('.') || path.isAbsolute(source) || /^(~~|@@|~|@)\//.test(source)) {
+            const resolved = NuxtConfigLoader.resolveAlias(source, layerDir);
+
+            // `extends: './base/nuxt.config'` pointe vers le fichier de configuration
+            return NuxtConfigLoader.configFileNames.includes(path.basename(resolved)) || path.basename(resolved) === 'nuxt.config'
+                ? path.dirname(resolved)
+                : resolved;
+        }
+
+        return this.resolvePackage(source, layerDir);
+    }
+
+    /**
+     * Recherche un paquet dans les node_modules, du layer jusqu'à la racine du disque
+     */
+    private static resolvePackage(packageName: string, fromDir: string): string | null {
+        let currentDir = fromDir;
+
+        while (true) {
+            const candidate = path.join(currentDir, 'node_modules', packageName);
+
+            if (fs.existsSync(candidate)) {
+                try {
+                    return fs.realpathSync(candidate);
+                } catch (error) {
+                    return candidate;
+                }
+            }
+
+            const parentDir = path.dirname(currentDir);
+
+            if (parentDir === currentDir) {
+                return null;
+            }
+
+            currentDir = parentDir;
+        }
+    }
+
+    /**
+     * Retourne le layer auquel appartient un fichier (le plus profond qui le contient)
+     */
+    static findLayer(layers: NuxtLayer[], filePath: string): NuxtLayer | undefined {
+        return layers
+            .filter(layer => filePath.startsWith(layer.rootDir + path.sep))
+            .sort((a, b) => b.rootDir.length - a.rootDir.length)[0];
+    }
+
+    /**
+     * Parmi plusieurs définitions d'un même nom, retourne celle que Nuxt retient :
+     * celle du layer le plus prioritaire
+     */
+    static resolveOverride(layers: NuxtLayer[], filePaths: string[]): string | undefined {
+        const getPriority = (filePath: string) => this.findLayer(layers, filePath)?.priority ?? Number.MAX_SAFE_INTEGER;
+
+        return [...filePaths].sort((a, b) => getPriority(a) - getPriority(b))[0];
+    }
+
+    /**
+     * Retourne la définition d'un layer plus prioritaire qui remplace ce fichier.
+     * Deux définitions dans le même layer ne sont pas une surcharge.
+     */
+    static findOverridingFile(layers: NuxtLayer[], filePath: string, definitionPaths: string[]): string | undefined {
+        if (layers.length < 2) {
+            return undefined;
+        }
+
+        const winner = this.resolveOverride(layers, definitionPaths);
+
+        if (!winner || winner === filePath) {
+            return undefined;
+        }
+
+        return this.findLayer(layers, winner) !== this.findLayer(layers, filePath) ? winner : undefined;
+    }
+}
@@ -0,0 +1,243 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { ScriptParser } from '../parsers/ScriptParser';
+import type { NuxtConfigObject } from '../types';
+
+/**
+ * Reads nuxt.config.{ts,js,mjs} statically.
+ * Le fichier n'est jamais exécuté : seules les valeurs littérales de l'objet de configuration sont extraites.
+ */
+export class NuxtConfigLoader {
+    static readonly configFileNames = ['nuxt.config.ts', 'nuxt.config.js', 'nuxt.config.mjs'];
+
+    /**
+     * Retourne le chemin du fichier de configuration d'un dossier, s'il existe
+     */
+    static findConfigFile(rootDir: string): string | null {
+        for (const fileName of this.configFileNames) {
+            const configPath = path.join(rootDir, fileName);
+
+            if (fs.existsSync(configPath)) {
+                return configPath;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Charge la configuration d'un projet (objet vide si absente ou non analysable)
+     */
+    static load(rootDir: string): NuxtConfigObject {
+        const configPath = this.findConfigFile(rootDir);
+
+        if (!configPath) {
+            return {};
+        }
+
+        try {
+            const content = fs.readFileSync(configPath, 'utf-8');
+
+            return this.parse(content, configPath);
+        } catch (error) {
+            console.error(`Error reading Nuxt config ${configPath}:`, error);
+
+            return {};
+        }
+    }
+
+    /**
+     * Extrait l'objet passé à `defineNuxtConfig(...)` ou exporté par défaut
+     */
+    static parse(content: string, configPath: string): NuxtConfigObject {
+        const sourceFile = ScriptParser.parse(content, configPath);
+
+        const context: EvaluationContext = {
+            sourceFile,
+            configDir: path.dirname(configPath),
+            resolving: new Set()
+        };
+
+        for (const statement of sourceFile.statements) {
+            if (!ts.isExportAssignment(statement)) {
+                continue;
+            }
+
+            let expression = ScriptParser.unwrap(statement.expression);
+
+            if (ts.isCallExpression(expression) && ScriptParser.getCalleeName(expression) === 'defineNuxtConfig') {
+                expression = expression.arguments[0] ? ScriptParser.unwrap(expression.arguments[0]) : expression;
+            }
+
+            const value = this.evaluate(expression, context);
+
+            return this.isObject(value) ? value : {};
+        }
+
+        return {};
+    }
+
+    /**
+     * Vrai pour un objet de configuration (`{ ... }`), faux pour un tableau ou une valeur scalaire
+     */
+    static isObject(value: unknown): value is NuxtConfigObject {
+        return !!value && typeof value === 'object' && !Array.isArray(value);
+    }
+
+    /**
+     * Évalue une expression littérale ; retourne undefined pour tout ce qui n'est pas statique
+     */
+    private static evaluate(node: ts.Expression, context: EvaluationContext): unknown {
+        const expression = ScriptParser.unwrap(node);
+
+        if (ts.isStringLiteralLike(expression)) {
+            return expression.text;
+        }
+
+        if (ts.isNumericLiteral(expression)) {
+            return Number(expression.text);
+        }
+
+        switch (expression.kind) {
+            case ts.SyntaxKind.TrueKeyword:
+                return true;
+            case ts.SyntaxKind.FalseKeyword:
+                return false;
+            case ts.SyntaxKind.NullKeyword:
+                return null;
+        }
+
+        if (ts.isObjectLiteralExpression(expression)) {
+            const result: NuxtConfigObject = {};
+
+            for (const property of expression.properties) {
+                if (ts.isSpreadAssignment(property)) {
+                    const spread = this.evaluate(property.expression, context);
+
+                    if (this.isObject(spread)) {
+                        Object.assign(result, spread);
+                    }
+
+                    continue;
+                }
+
+                const name = ScriptParser.getPropertyName(property.name);
+
+                if (!name) {
+                    continue;
+                }
+
+                if (ts.isPropertyAssignment(property)) {
+                    result[name] = this.evaluate(property.initializer, context);
+                } else if (ts.isShorthandPropertyAssignment(property)) {
+                    result[name] = this.evaluate(property.name, context);
+                }
+            }
+
+            return result;
+        }
+
+        if (ts.isArrayLiteralExpression(expression)) {
+            const result: unknown[] = [];
+
+            for (const element of expression.elements) {
+                if (ts.isSpreadElement(element)) {
+                    const spread = this.evaluate(element.expression, context);
+
+                    if (Array.isArray(spread)) {
+                        result.push(...spread);
+                    }
+
+                    continue;
+                }
+
+                result.push(this.evaluate(element, context));
+            }
+
+            return result;
+        }
+
+        if (ts.isIdentifier(expression)) {
+            if (expression.text === '__dirname') {
+                return context.configDir;
+            }
+
+            return this.evaluateIdentifier(expression.text, context);
+        }
+
+        // resolve(__dirname, './x') / join(__dirname, 'x')
+        if (ts.isCallExpression(expression)) {
+            const callee = ScriptParser.getCalleeName(expression);
+
+            if (callee === 'resolve' || callee === 'join') {
+                const parts = expression.arguments.map(arg => this.evaluate(arg, context));
+
+                if (parts.length > 0 && parts.every((part): part is string => typeof part === 'string')) {
+                    return callee === 'resolve' ? path.resolve(...parts) : path.join(...parts);
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Résout une constante déclarée au premier niveau du fichier de configuration
+     */
+    private static evaluateIdentifier(name: string, context: EvaluationContext): unknown {
+        if (context.resolving.has(name)) {
+            return undefined;
+        }
+
+        for (const statement of context.sourceFile.statements) {
+            if (!ts.isVariableStatement(statement)) {
+                continue;
+            }
+
+            for (const declaration of statement.declarationList.declarations) {
+                if (ts.isIdentifier(declaration.name) && declaration.name.text === name && declaration.initializer) {
+                    context.resolving.add(name);
+
+                    const value = this.evaluate(declaration.initializer, context);
+
+                    context.resolving.delete(name);
+
+                    return value;
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Résout les alias Nuxt (`~`, `@`, `~~`, `@@`) d'un chemin de configuration
+     */
+    static resolveAlias(configPath: string, rootDir: string, srcDir: string = rootDir): string {
+        const aliases: [string, string][] = [
+            ['~~', rootDir],
+            ['@@', rootDir],
+            ['~', srcDir],
+            ['@', srcDir]
+        ];
+
+        for (const [alias, target] of aliases) {
+            if (configPath === alias) {
+                return target;
+            }
+
+            if (configPath.startsWith(`${alias}/`)) {
+                return path.join(target, configPath.slice(alias.length + 1));
+            }
+        }
+
+        return path.resolve(srcDir, configPath);
+    }
+}
+
+interface EvaluationContext {
+    sourceFile: ts.SourceFile;
+    configDir: string;
+    resolving: Set<string>;
+}
@@ -1,18 +1,39 @@
 import * as vscode from 'vscode';
 import { NuxtIntellisense } from './providers/NuxtIntellisense';
+import { NuxtReferenceProvider } from './providers/NuxtReferenceProvider';
+import { NuxtDefinitionProvider } from './providers/NuxtDefinitionProvider';
+import { NuxtHoverProvider } from './providers/NuxtHoverProvider';
+import { NuxtDiagnostics } from './providers/NuxtDiagnostics';
+import { NuxtUnusedComponentsReport } from './providers/NuxtUnusedComponentsReport';
+import { NuxtRenameProvider } from './providers/NuxtRenameProvider';
+import { NuxtCompletionProvider } from './providers/NuxtCompletionProvider';
+import { ProjectManager } from './project/ProjectManager';
 
 export async function activate(context: vscode.ExtensionContext) {
-  const codeLensProvider = new NuxtIntellisense();
+  // L'index du projet est persisté entre les sessions pour éviter un scan complet à chaque rechargement
+  const storageUri = context.storageUri ?? context.globalStorageUri;
+
+  const projectManager = new ProjectManager(storageUri.fsPath);
+
+  const documentSelector: vscode.DocumentSelector = [
+    { language: 'vue' },
+    { language: 'typescript' },
+    { language: 'javascript' }
+  ];
+
+  const codeLensProvider = new NuxtIntellisense(projectManager);
+  const renameProvider = new NuxtRenameProvider(projectManager);
 
   context.subscriptions.push(
-    vscode.languages.registerCodeLensProvider(
-      [
-        { language: 'vue' },
-        { language: 'typescript' },
-        { language: 'javascript' }
-      ],
-      codeLensProvider
-    )
+    projectManager,
+    vscode.languages.registerCodeLensProvider(documentSelector, codeLensProvider),
+    vscode.languages.registerReferenceProvider(documentSelector, new NuxtReferenceProvider(projectManager)),
+    vscode.languages.registerDefinitionProvider(documentSelector, new NuxtDefinitionProvider(projectManager)),
+    vscode.languages.registerHoverProvider(documentSelector, new NuxtHoverProvider(projectManager)),
+    vscode.languages.registerRenameProvider(documentSelector, renameProvider),
+    vscode.languages.registerCompletionItemProvider({ language: 'vue' }, new NuxtCompletionProvider(projectManager), '<', ':', '@', '"'),
+    renameProvider,
+    new NuxtDiagnostics(projectManager)
   );
 
   const disposableCommands = [
@@ -22,6 +43,10 @@ export async function activate(context: vscode.ExtensionContext) {
 
     vscode.commands.registerCommand('nuxt-intellisense.showDocumentation', () => {
       vscode.Uri.parse('https://github.com/Merite15/Nuxt-Intellisense#readme')
+    }),
+
+    vscode.commands.registerCommand('nuxt-intellisense.findUnusedComponents', () => {
+      return new NuxtUnusedComponentsReport(projectManager).show();
     })
   ];
 
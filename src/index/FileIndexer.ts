@@ -0,0 +1,351 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { SfcParser } from '../parsers/SfcParser';
+import { ScriptParser } from '../parsers/ScriptParser';
+import { TemplateParser } from '../parsers/TemplateParser';
+import { NamingUtils } from '../utils/namingUtils';
+import type { IndexedDefinition, IndexedFile, IndexedUsage, NuxtFileRoles } from '../types';
+
+/**
+ * Extracts the definitions, usages and identifiers of a single file.
+ * Le résultat est stocké par ProjectIndex, chaque fichier n'est donc analysé qu'une fois.
+ */
+export class FileIndexer {
+    private static readonly utilsDirNames = ['utils', 'helpers', 'lib', 'constants', 'schemas', 'validationSchemas'];
+
+    // Chaînes qui peuvent désigner un composant : `UserCard` ou `user-card`
+    private static readonly componentNameRegex = /^(?:[A-Z][A-Za-z0-9]*|[a-z][a-z0-9]*(?:-[a-z0-9]+)+)$/;
+
+    // Appels qui transmettent leur premier argument au composant rendu
+    private static readonly componentValueWrappers = ['resolveComponent', 'computed', 'ref', 'shallowRef', 'markRaw', 'unref', 'toValue'];
+
+    /**
+     * Analyse le contenu d'un fichier et retourne son entrée d'index
+     *
+     * @param roles rôle du fichier d'après les dossiers du projet ; à défaut, déduit des noms de dossiers
+     */
+    static indexFile(filePath: string, content: string, mtime: number, size: number, roles?: NuxtFileRoles): IndexedFile {
+        const lineStarts = this.computeLineStarts(content);
+
+        return {
+            path: filePath,
+            mtime,
+            size,
+            identifiers: this.collectIdentifiers(content),
+            definitions: this.collectDefinitions(filePath, content, lineStarts, roles),
+            usages: this.collectUsages(filePath, content, lineStarts)
+        };
+    }
+
+    /**
+     * Usages seuls d'un contenu, par exemple celui d'un document en cours d'édition
+     */
+    static indexUsages(filePath: string, content: string): IndexedUsage[] {
+        return this.collectUsages(filePath, content, this.computeLineStarts(content));
+    }
+
+    private static collectIdentifiers(content: string): string[] {
+        const identifiers = new Set<string>();
+
+        const identifierRegex = /[A-Za-z_$][\w$]*/g;
+
+        let match: RegExpExecArray | null;
+
+        while ((match = identifierRegex.exec(content))) {
+            identifiers.add(match[0]);
+        }
+
+        return [...identifiers];
+    }
+
+    private static collectDefinitions(filePath: string, content: string, lineStarts: number[], roles?: NuxtFileRoles): IndexedDefinition[] {
+        const definitions: IndexedDefinition[] = [];
+
+        const segments = path.dirname(filePath).split(path.sep);
+        const extension = path.extname(filePath);
+        const baseName = path.basename(filePath, extension);
+
+        const push = (kind: IndexedDefinition['kind'], name: string, index: number, exportType?: string) => {
+            const { line, character } = this.offsetToPosition(lineStarts, index);
+
+            definitions.push({ kind, name, line, character, ...(exportType ? { exportType } : {}) });
+        };
+
+        // Les dossiers `components` hors configuration (ex: pages/admin/components) restent pris en compte
+        if (roles?.component || (extension === '.vue' && segments.includes('components'))) {
+            push('component', baseName, 0);
+        }
+
+        if (extension === '.vue' && (roles ? roles.layout : segments.includes('layouts'))) {
+            push('layout', baseName, 0);
+        }
+
+        let match: RegExpExecArray | null;
+
+        if (roles ? roles.middleware : segments.includes('middleware')) {
+            const middlewareRegex = /defineNuxtRouteMiddleware\s*\(/g;
+
+            if ((match = middlewareRegex.exec(content))) {
+                push('middleware', baseName, match.index);
+            }
+        }
+
+        if (roles ? roles.plugin : segments.includes('plugins')) {
+            const pluginRegex = /defineNuxtPlugin\s*\(/g;
+
+            if ((match = pluginRegex.exec(content))) {
+                push('plugin', baseName, match.index);
+            }
+        }
+
+        const defineStoreRegex = /defineStore\s*\(\s*(['"`])(.*?)\1/g;
+
+        while ((match = defineStoreRegex.exec(content))) {
+            push('store', match[2], match.index);
+        }
+
+        // Nuxt auto-importe l'export par défaut sous le nom du fichier, quel que soit le nom de la fonction
+        const defaultExport = /export\s+default\b/.exec(content);
+
+        if (extension !== '.vue' && (roles ? roles.composable : segments.includes('composables')) && !content.includes('defineStore')) {
+            const composableRegex = /export\s+(const|function|async\s+function)\s+(\w+)/g;
+
+            while ((match = composableRegex.exec(content))) {
+                push('composable', match[2], match.index);
+            }
+
+            if (defaultExport) {
+                push('composable', this.getDefaultExportName(filePath), defaultExport.index);
+            }
+        }
+
+        if (extension !== '.vue' && (roles?.util || segments.some(segment => this.utilsDirNames.includes(segment)))) {
+            const utilsRegex = /export\s+(const|function|async function|interface|type|enum|class)\s+(\w+)/g;
+
+            while ((match = utilsRegex.exec(content))) {
+                push('util', match[2], match.index, match[1]);
+            }
+
+            if (defaultExport) {
+                push('util', this.getDefaultExportName(filePath), defaultExport.index);
+            }
+        }
+
+        return definitions;
+    }
+
+    /**
+     * Nom sous lequel Nuxt auto-importe l'export par défaut d'un fichier (`use-counter.ts` → `useCounter`, `counter/index.ts` → `counter`)
+     */
+    private static getDefaultExportName(filePath: string): string {
+        const baseName = path.basename(filePath, path.extname(filePath));
+        const name = NamingUtils.pascalCase(baseName === 'index' ? path.basename(path.dirname(filePath)) : baseName);
+
+        return name.charAt(0).toLowerCase() + name.slice(1);
+    }
+
+    private static collectUsages(filePath: string, content: string, lineStarts: number[]): IndexedUsage[] {
+        const usages: IndexedUsage[] = [];
+
+        const push = (kind: IndexedUsage['kind'], name: string, index: number) => {
+            const { line, character } = this.offsetToPosition(lineStarts, index);
+
+            usages.push({ kind, name, line, character });
+        };
+
+        let match: RegExpExecArray | null;
+
+        // Balises de composants (PascalCase ou kebab-case)
+        if (path.extname(filePath) === '.vue') {
+            const tagRegex = /<([A-Za-z][\w-]*)/g;
+
+            while ((match = tagRegex.exec(content))) {
+                const tagName = match[1];
+
+                if (/^[A-Z]/.test(tagName) || tagName.includes('-')) {
+                    push('tag', tagName, match.index + 1);
+                }
+            }
+        }
+
+        // Composants rendus par leur nom : `resolveComponent('UserCard')`, `<component :is="'UserCard'">`
+        if (/\bresolveComponent\s*\(|(?:\s:is|v-bind:is)\s*=/.test(content)) {
+            this.collectDynamicComponentUsages(filePath, content, (name, index) => push('dynamicComponent', name, index));
+        }
+
+        // Appels de composables et de stores
+        const callRegex = /\b(use[A-Z$][\w$]*)\s*\(/g;
+
+        while ((match = callRegex.exec(content))) {
+            push('call', match[1], match.index);
+        }
+
+        // layout: 'name'
+        const layoutRegex = /layout\s*:\s*(['"`])([\w-]+)\1/g;
+
+        while ((match = layoutRegex.exec(content))) {
+            push('layout', match[2], match.index + match[0].lastIndexOf(match[2]));
+        }
+
+        // middleware: 'name' | middleware: ['a', 'b']
+        const middlewareRegex = /middleware\s*:\s*(?:(['"`])([\w-]+)\1|\[([^\]]*)\])/g;
+
+        while ((match = middlewareRegex.exec(content))) {
+            if (match[2]) {
+                push('middleware', match[2], match.index + match[0].lastIndexOf(match[2]));
+                continue;
+            }
+
+            const arrayStart = match.index + match[0].indexOf('[') + 1;
+            const itemRegex = /(['"`])([\w-]+)\1/g;
+
+            let itemMatch: RegExpExecArray | null;
+
+            while ((itemMatch = itemRegex.exec(match[3]))) {
+                push('middleware', itemMatch[2], arrayStart + itemMatch.index + 1);
+            }
+        }
+
+        return usages;
+    }
+
+    /**
+     * Noms de composants rendus dynamiquement : argument de `resolveComponent()`, littéraux d'une expression `:is`
+     * et valeurs des objets ou tableaux qui y aboutissent (`:is="views[tab]"` avec `const views = { home: 'HomeView' }`)
+     */
+    private static collectDynamicComponentUsages(filePath: string, content: string, push: (name: string, index: number) => void): void {
+        const sfc = SfcParser.parse(content, filePath);
+        const blocks = SfcParser.getScriptBlocks(sfc);
+
+        // Variables des scripts, pour suivre une expression `:is` jusqu'à la valeur qui lui est affectée
+        const declarations = new Map<string, { initializer: ts.Expression, sourceFile: ts.SourceFile, offset: number }>();
+
+        for (const block of blocks) {
+            ScriptParser.walk(block.ast, node => {
+                if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer && !declarations.has(node.name.text)) {
+                    declarations.set(node.name.text, { initializer: node.initializer, sourceFile: block.ast, offset: block.offset });
+                }
+            });
+        }
+
+        const visited = new Set<ts.Node>();
+
+        const collect = (expression: ts.Expression, sourceFile: ts.SourceFile, offset: number): void => {
+            const node = ScriptParser.unwrap(expression);
+
+            if (visited.has(node)) {
+                return;
+            }
+
+            visited.add(node);
+
+            if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+                if (this.componentNameRegex.test(node.text)) {
+                    push(node.text, offset + node.getStart(sourceFile) + 1);
+                }
+            } else if (ts.isConditionalExpression(node)) {
+                collect(node.whenTrue, sourceFile, offset);
+                collect(node.whenFalse, sourceFile, offset);
+            } else if (ts.isBinaryExpression(node) && [ts.SyntaxKind.BarBarToken, ts.SyntaxKind.QuestionQuestionToken, ts.SyntaxKind.AmpersandAmpersandToken].includes(node.operatorToken.kind)) {
+                // `a && 'X'` : seul le membre de droite peut être le composant
+                if (node.operatorToken.kind !== ts.SyntaxKind.AmpersandAmpersandToken) {
+                    collect(node.left, sourceFile, offset);
+                }
+
+                collect(node.right, sourceFile, offset);
+            } else if (ts.isObjectLiteralExpression(node)) {
+                // Les valeurs d'une table de composants, pas ses clés
+                for (const property of node.properties) {
+                    if (ts.isPropertyAssignment(property)) {
+                        collect(property.initializer, sourceFile, offset);
+                    } else if (ts.isShorthandPropertyAssignment(property)) {
+                        collect(property.name, sourceFile, offset);
+                    }
+                }
+            } else if (ts.isArrayLiteralExpression(node)) {
+                node.elements.forEach(element => collect(ts.isSpreadElement(element) ? element.expression : element, sourceFile, offset));
+            } else if (ts.isElementAccessExpression(node) || ts.isPropertyAccessExpression(node)) {
+                // `views[tab]`, `views.home`, `current.value`
+                collect(node.expression, sourceFile, offset);
+            } else if (ts.isIdentifier(node)) {
+                const declaration = declarations.get(node.text);
+
+                if (declaration) {
+                    collect(declaration.initializer, declaration.sourceFile, declaration.offset);
+                }
+            } else if (ts.isCallExpression(node)) {
+                const callee = ScriptParser.getCalleeName(node);
+
+                if (callee && this.componentValueWrappers.includes(callee) && node.arguments[0]) {
+                    collect(node.arguments[0], sourceFile, offset);
+                }
+            } else if (ScriptParser.isFunctionLike(node) && node.body) {
+                // `computed(() => views[tab.value])`
+                if (!ts.isBlock(node.body)) {
+                    collect(node.body, sourceFile, offset);
+                } else {
+                    ScriptParser.walk(node.body, child => {
+                        if (ts.isReturnStatement(child) && child.expression) {
+                            collect(child.expression, sourceFile, offset);
+                        }
+                    });
+                }
+            }
+        };
+
+        for (const block of blocks) {
+            for (const call of ScriptParser.findCalls(block.ast, 'resolveComponent')) {
+                collect(call, block.ast, block.offset);
+            }
+        }
+
+        if (!sfc.template?.ast) {
+            return;
+        }
+
+        TemplateParser.walkElements(sfc.template.ast, element => {
+            for (const directive of TemplateParser.getDirectives(element, 'bind')) {
+                if (TemplateParser.getDirectiveArgument(directive) !== 'is' || !directive.exp) {
+                    continue;
+                }
+
+                const expression = ScriptParser.parse(directive.exp.loc.source);
+
+                for (const statement of expression.statements) {
+                    if (ts.isExpressionStatement(statement)) {
+                        collect(statement.expression, expression, directive.exp.loc.start.offset);
+                    }
+                }
+            }
+        });
+    }
+
+    private static computeLineStarts(content: string): number[] {
+        const lineStarts = [0];
+
+        for (let i = 0; i < content.length; i++) {
+            if (content.charCodeAt(i) === 10) {
+                lineStarts.push(i + 1);
+            }
+        }
+
+        return lineStarts;
+    }
+
+    private static offsetToPosition(lineStarts: number[], offset: number): { line: number, character: number } {
+        let low = 0;
+        let high = lineStarts.length - 1;
+
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+
+            if (lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        return { line: low, character: offset - lineStarts[low] };
+    }
+}
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { IndexedFile } from '../types';
+
+/**
+ * Format du fichier persisté sur disque
+ */
+interface PersistedIndex {
+    version: number;
+    root: string;
+    fingerprint?: string;
+    files: IndexedFile[];
+}
+
+/**
+ * Persists the project index in the extension storage so that a window reload
+ * only re-parses the files whose mtime or size changed.
+ */
+export class IndexStorage {
+    /**
+     * À incrémenter dès que le format produit par FileIndexer change
+     */
+    private static readonly version = 4;
+
+    private readonly filePath: string;
+    private saveTimer: NodeJS.Timeout | undefined;
+
+    /**
+     * @param fingerprint empreinte des dossiers du projet : l'index persisté est ignoré si elle a changé
+     */
+    constructor(storageDir: string, private root: string, public fingerprint: string = '') {
+        const key = crypto.createHash('sha1').update(root).digest('hex').slice(0, 16);
+
+        this.filePath = path.join(storageDir, `project-index-${key}.json`);
+    }
+
+    /**
+     * Charge l'index persisté, ou une map vide s'il est absent, corrompu ou obsolète
+     */
+    async load(): Promise<Map<string, IndexedFile>> {
+        const files = new Map<string, IndexedFile>();
+
+        try {
+            const raw = await fs.promises.readFile(this.filePath, 'utf-8');
+            const persisted = JSON.parse(raw) as PersistedIndex;
+
+            if (persisted.version !== IndexStorage.version || persisted.root !== this.root || (persisted.fingerprint ?? '') !== this.fingerprint) {
+                return files;
+            }
+
+            for (const file of persisted.files) {
+                files.set(file.path, file);
+            }
+        } catch (error) {
+            // Pas encore de cache : premier lancement ou fichier illisible
+        }
+
+        return files;
+    }
+
+    /**
+     * Planifie une sauvegarde, regroupant les mises à jour rapprochées
+     */
+    scheduleSave(getFiles: () => IndexedFile[], delay: number = 2000): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+        }
+
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+
+            this.save(getFiles()).catch(error => console.error('Error saving project index:', error));
+        }, delay);
+    }
+
+    async save(files: IndexedFile[]): Promise<void> {
+        const persisted: PersistedIndex = {
+            version: IndexStorage.version,
+            root: this.root,
+            fingerprint: this.fingerprint,
+            files
+        };
+
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+        // Écriture atomique pour ne jamais laisser un cache tronqué
+        const tempPath = `${this.filePath}.tmp`;
+
+        await fs.promises.writeFile(tempPath, JSON.stringify(persisted), 'utf-8');
+        await fs.promises.rename(tempPath, this.filePath);
+    }
+
+    /**
+     * Sauvegarde immédiatement si une sauvegarde était en attente
+     */
+    flush(getFiles: () => IndexedFile[]): void {
+        if (!this.saveTimer) {
+            return;
+        }
+
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            fs.writeFileSync(this.filePath, JSON.stringify({
+                version: IndexStorage.version,
+                root: this.root,
+                fingerprint: this.fingerprint,
+                files: getFiles()
+            }), 'utf-8');
+        } catch (error) {
+            console.error('Error saving project index:', error);
+        }
+    }
+}
@@ -0,0 +1,453 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileIndexer } from './FileIndexer';
+import { IndexStorage } from './IndexStorage';
+import type { IndexedDefinition, IndexedFile, IndexedUsage, IndexedUsageKind, NuxtFileRoles, NuxtSymbolKind } from '../types';
+
+/**
+ * Filtre appliqué aux fichiers retournés par l'index
+ */
+export interface IndexFileFilter {
+    extensions?: string[];
+    excludeDirs?: string[];
+    withinDir?: string;
+}
+
+/**
+ * Fichiers ajoutés, modifiés ou supprimés par une mise à jour de l'index
+ */
+export interface IndexUpdate {
+    paths: string[];
+    /** Usages de chaque fichier avant la mise à jour : ceux retirés ou d'un fichier supprimé ne sont plus dans l'index */
+    previousUsages: Map<string, IndexedUsage[]>;
+}
+
+/**
+ * Single source of truth for the files of the workspace.
+ * Chaque fichier est lu et analysé une seule fois, puis mis à jour de façon incrémentale
+ * à chaque modification. Les services interrogent l'index au lieu de rescanner le projet.
+ */
+export class ProjectIndex implements vscode.Disposable {
+    private files: Map<string, IndexedFile> = new Map();
+    private identifierIndex: Map<string, Set<string>> = new Map();
+    private contentCache: Map<string, string> = new Map();
+    private buildPromise: Promise<void> | null = null;
+    private fileWatchers: vscode.FileSystemWatcher[] = [];
+    private readonly onDidUpdateEmitter = new vscode.EventEmitter<IndexUpdate>();
+
+    private static readonly includeGlob = '**/*.{vue,ts,js}';
+    private static readonly excludeGlob = '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**}';
+    private static readonly batchSize = 50;
+    private static readonly indexedExtensions = ['.vue', '.ts', '.js'];
+    private static readonly excludedDirNames = ['node_modules', '.nuxt', '.output', 'dist', '.git'];
+
+    /**
+     * Fired with the paths of the files that were added, changed or removed, and their usages before the update
+     */
+    public readonly onDidUpdate = this.onDidUpdateEmitter.event;
+
+    /**
+     * @param layerRoots racines du projet et de ses layers : seuls leurs fichiers sont indexés.
+     * Celles hors de l'espace de travail (dossier parent, node_modules) sont parcourues directement sur le disque.
+     * Sans racine, tout l'espace de travail est indexé.
+     * @param classify rôle de chaque fichier d'après les dossiers résolus du projet (`srcDir`, `dir.*`)
+     */
+    constructor(
+        private storage?: IndexStorage,
+        private layerRoots: string[] = [],
+        private classify?: (fsPath: string) => NuxtFileRoles
+    ) {
+    }
+
+    /**
+     * Construit l'index au premier appel, puis retourne immédiatement.
+     * Une construction échouée (lecture, `findFiles`) est relancée au prochain appel.
+     */
+    public ready(): Promise<void> {
+        if (!this.buildPromise) {
+            this.buildPromise = this.build().catch(error => {
+                this.buildPromise = null;
+
+                throw error;
+            });
+        }
+
+        return this.buildPromise;
+    }
+
+    private async build(): Promise<void> {
+        // Les entrées persistées dont le mtime et la taille n'ont pas changé sont réutilisées telles quelles
+        const persisted = this.storage ? await this.storage.load() : new Map<string, IndexedFile>();
+
+        const filePaths = new Set<string>();
+
+        if (this.layerRoots.length === 0) {
+            const uris = await vscode.workspace.findFiles(ProjectIndex.includeGlob, ProjectIndex.excludeGlob);
+
+            uris.forEach(uri => filePaths.add(uri.fsPath));
+        }
+
+        for (const layerRoot of this.getIndexedRoots()) {
+            const layerFiles = this.isExternalRoot(layerRoot)
+                ? await this.listLayerFiles(layerRoot)
+                : (await vscode.workspace.findFiles(
+                    new vscode.RelativePattern(layerRoot, ProjectIndex.includeGlob),
+                    ProjectIndex.excludeGlob
+                )).map(uri => uri.fsPath);
+
+            layerFiles.forEach(filePath => filePaths.add(filePath));
+        }
+
+        const paths = [...filePaths];
+
+        let reparsedCount = 0;
+
+        for (let i = 0; i < paths.length; i += ProjectIndex.batchSize) {
+            const batch = paths.slice(i, i + ProjectIndex.batchSize);
+
+            const reparsed = await Promise.all(batch.map(fsPath => this.restoreOrIndexFile(fsPath, persisted.get(fsPath))));
+
+            reparsedCount += reparsed.filter(Boolean).length;
+        }
+
+        // Sauvegarder si des fichiers ont été ajoutés, modifiés ou supprimés depuis la dernière session
+        if (this.storage && (reparsedCount > 0 || persisted.size !== this.files.size)) {
+            this.storage.scheduleSave(() => this.getFiles(), 0);
+        }
+
+        this.setupFileWatcher();
+    }
+
+    /**
+     * Réutilise l'entrée persistée si le fichier n'a pas changé, sinon le réanalyse.
+     * Retourne true si le fichier a été réanalysé.
+     */
+    private async restoreOrIndexFile(fsPath: string, cached?: IndexedFile): Promise<boolean> {
+        if (cached) {
+            try {
+                const stat = await fs.promises.stat(fsPath);
+
+                if (stat.mtimeMs === cached.mtime && stat.size === cached.size) {
+                    this.register(cached);
+
+                    return false;
+                }
+            } catch (error) {
+                return false;
+            }
+        }
+
+        await this.indexFile(fsPath);
+
+        return true;
+    }
+
+    /**
+     * Racines à parcourir, sans celles déjà couvertes par une racine parente (ex: `layers/admin`)
+     */
+    private getIndexedRoots(): string[] {
+        return this.layerRoots.filter(layerRoot => !this.layerRoots.some(other =>
+            other !== layerRoot &&
+            layerRoot.startsWith(other + path.sep) &&
+            !path.relative(other, layerRoot).split(path.sep).some(segment => ProjectIndex.excludedDirNames.includes(segment))
+        ));
+    }
+
+    /**
+     * Racine que `findFiles` ne couvre pas : hors de l'espace de travail ou dans node_modules
+     */
+    private isExternalRoot(layerRoot: string): boolean {
+        return !vscode.workspace.getWorkspaceFolder(vscode.Uri.file(layerRoot)) ||
+            layerRoot.split(path.sep).includes('node_modules');
+    }
+
+    /**
+     * Liste récursivement les fichiers indexables d'un layer
+     */
+    private async listLayerFiles(layerRoot: string): Promise<string[]> {
+        const files: string[] = [];
+
+        const recurse = async (dir: string) => {
+            let entries: fs.Dirent[];
+
+            try {
+                entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            } catch (error) {
+                return;
+            }
+
+            for (const entry of entries) {
+                const fullPath = path.join(dir, entry.name);
+
+                if (entry.isDirectory()) {
+                    if (!ProjectIndex.excludedDirNames.includes(entry.name)) {
+                        await recurse(fullPath);
+                    }
+                } else if (ProjectIndex.indexedExtensions.includes(path.extname(entry.name))) {
+                    files.push(fullPath);
+                }
+            }
+        };
+
+        await recurse(layerRoot);
+
+        return files;
+    }
+
+    /**
+     * Réanalyse tous les fichiers, par exemple quand les dossiers du projet changent dans nuxt.config
+     */
+    public async reindex(classify?: (fsPath: string) => NuxtFileRoles): Promise<void> {
+        await this.ready();
+
+        this.classify = classify ?? this.classify;
+
+        const paths = [...this.files.keys()];
+        const previousUsages = this.getUsagesSnapshot(paths);
+
+        for (let i = 0; i < paths.length; i += ProjectIndex.batchSize) {
+            await Promise.all(paths.slice(i, i + ProjectIndex.batchSize).map(fsPath => this.indexFile(fsPath)));
+        }
+
+        this.storage?.scheduleSave(() => this.getFiles());
+
+        this.onDidUpdateEmitter.fire({ paths, previousUsages });
+    }
+
+    private setupFileWatcher() {
+        const patterns: vscode.GlobPattern[] = this.layerRoots.length > 0
+            ? this.getIndexedRoots().map(layerRoot => new vscode.RelativePattern(layerRoot, ProjectIndex.includeGlob))
+            : [ProjectIndex.includeGlob];
+
+        for (const pattern of patterns) {
+            const fileWatcher = vscode.workspace.createFileSystemWatcher(
+                pattern,
+                false, // Ne pas ignorer les créations
+                false, // Ne pas ignorer les changements
+                false  // Ne pas ignorer les suppressions
+            );
+
+            fileWatcher.onDidChange(uri => this.updateFile(uri.fsPath));
+            fileWatcher.onDidCreate(uri => this.updateFile(uri.fsPath));
+            fileWatcher.onDidDelete(uri => this.removeFile(uri.fsPath));
+
+            this.fileWatchers.push(fileWatcher);
+        }
+    }
+
+    private async updateFile(fsPath: string): Promise<void> {
+        if (this.isExcluded(fsPath)) {
+            return;
+        }
+
+        const previousUsages = this.getUsagesSnapshot([fsPath]);
+
+        await this.indexFile(fsPath);
+
+        this.storage?.scheduleSave(() => this.getFiles());
+
+        this.onDidUpdateEmitter.fire({ paths: [fsPath], previousUsages });
+    }
+
+    private removeFile(fsPath: string): void {
+        if (!this.files.has(fsPath)) {
+            return;
+        }
+
+        const previousUsages = this.getUsagesSnapshot([fsPath]);
+
+        this.unregister(fsPath);
+
+        this.storage?.scheduleSave(() => this.getFiles());
+
+        this.onDidUpdateEmitter.fire({ paths: [fsPath], previousUsages });
+    }
+
+    private getUsagesSnapshot(paths: string[]): Map<string, IndexedUsage[]> {
+        return new Map(paths
+            .filter(fsPath => this.files.has(fsPath))
+            .map(fsPath => [fsPath, this.files.get(fsPath)!.usages]));
+    }
+
+    private async indexFile(fsPath: string): Promise<void> {
+        try {
+            const stat = await fs.promises.stat(fsPath);
+            const content = await fs.promises.readFile(fsPath, 'utf-8');
+
+            this.unregister(fsPath);
+
+            this.register(FileIndexer.indexFile(fsPath, content, stat.mtimeMs, stat.size, this.classify?.(fsPath)));
+        } catch (error) {
+            // Fichier supprimé ou illisible entre-temps
+            this.unregister(fsPath);
+        }
+    }
+
+    private register(file: IndexedFile): void {
+        this.files.set(file.path, file);
+
+        for (const identifier of file.identifiers) {
+            let paths = this.identifierIndex.get(identifier);
+
+            if (!paths) {
+                paths = new Set();
+                this.identifierIndex.set(identifier, paths);
+            }
+
+            paths.add(file.path);
+        }
+    }
+
+    private unregister(fsPath: string): void {
+        const previous = this.files.get(fsPath);
+
+        this.contentCache.delete(fsPath);
+
+        if (!previous) {
+            return;
+        }
+
+        for (const identifier of previous.identifiers) {
+            const paths = this.identifierIndex.get(identifier);
+
+            paths?.delete(fsPath);
+
+            if (paths && paths.size === 0) {
+                this.identifierIndex.delete(identifier);
+            }
+        }
+
+        this.files.delete(fsPath);
+    }
+
+    private isExcluded(fsPath: string): boolean {
+        // Un layer installé dans node_modules n'est pas exclu : seul le chemin relatif à son layer compte
+        const layerRoot = this.layerRoots
+            .filter(root => fsPath.startsWith(root + path.sep))
+            .sort((a, b) => b.length - a.length)[0];
+
+        const relativePath = layerRoot ? path.relative(layerRoot, fsPath) : fsPath;
+
+        return relativePath.split(path.sep).some(segment => ProjectIndex.excludedDirNames.includes(segment));
+    }
+
+    private matchesFilter(file: IndexedFile, filter?: IndexFileFilter): boolean {
+        if (!filter) {
+            return true;
+        }
+
+        if (filter.extensions && !filter.extensions.includes(path.extname(file.path))) {
+            return false;
+        }
+
+        if (filter.withinDir && !file.path.startsWith(filter.withinDir + path.sep)) {
+            return false;
+        }
+
+        if (filter.excludeDirs) {
+            const segments = path.dirname(file.path).split(path.sep);
+
+            if (segments.some(segment => filter.excludeDirs!.includes(segment))) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Retourne tous les fichiers indexés correspondant au filtre
+     */
+    public getFiles(filter?: IndexFileFilter): IndexedFile[] {
+        return [...this.files.values()].filter(file => this.matchesFilter(file, filter));
+    }
+
+    /**
+     * Retourne l'entrée d'index d'un fichier
+     */
+    public getFile(fsPath: string): IndexedFile | undefined {
+        return this.files.get(fsPath);
+    }
+
+    /**
+     * Retourne les fichiers contenant au moins un des identifiants donnés
+     */
+    public getFilesWithIdentifier(identifiers: string | string[], filter?: IndexFileFilter): IndexedFile[] {
+        const paths = new Set<string>();
+
+        for (const identifier of Array.isArray(identifiers) ? identifiers : [identifiers]) {
+            for (const fsPath of this.identifierIndex.get(identifier) || []) {
+                paths.add(fsPath);
+            }
+        }
+
+        return [...paths]
+            .map(fsPath => this.files.get(fsPath)!)
+            .filter(file => file && this.matchesFilter(file, filter));
+    }
+
+    /**
+     * Retourne les définitions d'un type donné, éventuellement filtrées par nom
+     */
+    public getDefinitions(kind: NuxtSymbolKind, name?: string): { file: IndexedFile, definition: IndexedDefinition }[] {
+        const results: { file: IndexedFile, definition: IndexedDefinition }[] = [];
+
+        for (const file of this.files.values()) {
+            for (const definition of file.definitions) {
+                if (definition.kind === kind && (name === undefined || definition.name === name)) {
+                    results.push({ file, definition });
+                }
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Retourne les usages d'un type donné pour un ou plusieurs noms
+     */
+    public getUsages(kind: IndexedUsageKind, names: string | string[], filter?: IndexFileFilter): { file: IndexedFile, usage: IndexedUsage }[] {
+        const nameList = Array.isArray(names) ? names : [names];
+        const results: { file: IndexedFile, usage: IndexedUsage }[] = [];
+
+        for (const file of this.getFilesWithIdentifier(nameList.flatMap(name => name.split('-')), filter)) {
+            for (const usage of file.usages) {
+                if (usage.kind === kind && nameList.includes(usage.name)) {
+                    results.push({ file, usage });
+                }
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Lit le contenu d'un fichier indexé (mis en cache jusqu'à sa prochaine modification)
+     */
+    public async readContent(fsPath: string): Promise<string | null> {
+        const cached = this.contentCache.get(fsPath);
+
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        try {
+            const content = await fs.promises.readFile(fsPath, 'utf-8');
+
+            this.contentCache.set(fsPath, content);
+
+            return content;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    public dispose(): void {
+        this.storage?.flush(() => this.getFiles());
+
+        this.fileWatchers.forEach(fileWatcher => fileWatcher.dispose());
+
+        this.onDidUpdateEmitter.dispose();
+    }
+}
@@ -0,0 +1,781 @@
+import * as ts from 'typescript';
+import { ScriptParser } from './ScriptParser';
+import { ParsedScriptBlock, ParsedSfc, SfcParser } from './SfcParser';
+import { TemplateParser } from './TemplateParser';
+import type { ComponentMeta, ComponentProp } from '../types';
+
+/**
+ * Prop ou événement déclaré par un composant et le nœud qui le déclare
+ */
+export interface ComponentDeclaration {
+    name: string;
+    node: ts.Node;
+}
+
+/**
+ * Extracts the props, emits, slots, models and exposed members a component offers to its consumers.
+ * Les macros de `<script setup>` et les options de `defineComponent` sont lues dans l'AST, les slots aussi dans le template.
+ */
+export class ComponentParser {
+    // Constructeurs utilisés comme types dans les déclarations de props à l'exécution
+    private static readonly runtimeTypes: Record<string, string> = {
+        String: 'string',
+        Number: 'number',
+        Boolean: 'boolean',
+        Object: 'object',
+        Array: 'unknown[]',
+        Function: 'Function',
+        Symbol: 'symbol',
+        BigInt: 'bigint'
+    };
+
+    /**
+     * Analyse un fichier de composant ; retourne des listes vides s'il ne peut pas être analysé
+     */
+    static parse(content: string, filePath: string): ComponentMeta {
+        const meta: ComponentMeta = { props: [], emits: [], slots: [], models: [], exposed: [], dynamicProps: false, dynamicEmits: false, dynamicSlots: false };
+
+        let sfc: ParsedSfc;
+
+        try {
+            sfc = SfcParser.parse(content, filePath);
+        } catch (error) {
+            return meta;
+        }
+
+        if (sfc.scriptSetup) {
+            this.collectMacros(sfc.scriptSetup, meta);
+        }
+
+        if (sfc.script) {
+            this.collectOptions(sfc.script, meta);
+        }
+
+        if (sfc.template?.ast) {
+            TemplateParser.walkElements(sfc.template.ast, element => {
+                if (element.tag !== 'slot') {
+                    return;
+                }
+
+                const nameAttribute = TemplateParser.getAttributes(element).find(attribute => attribute.name === 'name');
+
+                // `<slot :name="...">` est dynamique : son nom n'est pas connu statiquement
+                if (!nameAttribute && TemplateParser.getDirectives(element, 'bind').some(directive => TemplateParser.getDirectiveArgument(directive) === 'name')) {
+                    meta.dynamicSlots = true;
+
+                    return;
+                }
+
+                this.addUnique(meta.slots, nameAttribute?.value?.content || 'default');
+            });
+        }
+
+        return meta;
+    }
+
+    /**
+     * Lit `defineProps`, `withDefaults`, `defineEmits`, `defineSlots`, `defineModel` et `defineExpose`
+     */
+    private static collectMacros(block: ParsedScriptBlock, meta: ComponentMeta): void {
+        const sourceFile = block.ast;
+        const defaults = new Map<string, string>();
+
+        ScriptParser.walk(sourceFile, node => {
+            if (!ts.isCallExpression(node)) {
+                return;
+            }
+
+            switch (ScriptParser.getCalleeName(node)) {
+                case 'defineProps':
+                    this.collectProps(node, sourceFile, meta);
+                    this.collectDestructuredDefaults(node, sourceFile, defaults);
+                    break;
+                case 'withDefaults': {
+                    const defaultsObject = node.arguments[1] && ScriptParser.unwrap(node.arguments[1]);
+
+                    if (defaultsObject && ts.isObjectLiteralExpression(defaultsObject)) {
+                        for (const property of defaultsObject.properties) {
+                            const name = ScriptParser.getPropertyName(property.name);
+
+                            if (name && ts.isPropertyAssignment(property)) {
+                                defaults.set(name, this.getDefaultText(property.initializer, sourceFile));
+                            }
+                        }
+                    }
+
+                    break;
+                }
+                case 'defineEmits':
+                    this.collectEmits(node, sourceFile, meta);
+                    break;
+                case 'defineModel':
+                    this.collectModel(node, sourceFile, meta);
+                    break;
+                case 'defineExpose': {
+                    const exposed = node.arguments[0] && ScriptParser.unwrap(node.arguments[0]);
+
+                    if (exposed && ts.isObjectLiteralExpression(exposed)) {
+                        ScriptParser.getPropertyNames(exposed).forEach(name => this.addUnique(meta.exposed, name));
+                    }
+
+                    break;
+                }
+                case 'defineSlots': {
+                    const typeArgument = node.typeArguments?.[0];
+
+                    this.getMacroSlotDeclarations(node, sourceFile).forEach(declaration => this.addUnique(meta.slots, declaration.name));
+
+                    meta.dynamicSlots = meta.dynamicSlots || (!!typeArgument && this.hasUnresolvedType(typeArgument, sourceFile));
+
+                    break;
+                }
+            }
+        });
+
+        for (const prop of meta.props) {
+            if (defaults.has(prop.name)) {
+                prop.default = defaults.get(prop.name);
+            }
+        }
+    }
+
+    private static collectProps(call: ts.CallExpression, sourceFile: ts.SourceFile, meta: ComponentMeta): void {
+        const props: ComponentProp[] = [];
+
+        // defineProps<{ title: string, size?: 'sm' | 'md' }>()
+        const typeArgument = call.typeArguments?.[0];
+
+        if (typeArgument) {
+            for (const member of this.getTypeMembers(typeArgument, sourceFile)) {
+                const name = ScriptParser.getPropertyName(member.name);
+
+                if (name && ts.isPropertySignature(member)) {
+                    props.push({
+                        name,
+                        type: member.type?.getText(sourceFile),
+                        required: !member.questionToken,
+                        values: member.type && this.getLiteralValues(member.type, sourceFile)
+                    });
+                }
+            }
+
+            meta.dynamicProps = meta.dynamicProps || this.hasUnresolvedType(typeArgument, sourceFile);
+        }
+
+        if (call.arguments[0]) {
+            props.push(...this.getRuntimeProps(call.arguments[0], sourceFile, meta));
+        }
+
+        this.addProps(meta, props);
+    }
+
+    /**
+     * Props déclarées à l'exécution : `['title', 'size']` ou `{ title: String, size: { type: String, required: true, default: 'md' } }`
+     */
+    private static getRuntimeProps(node: ts.Node, sourceFile: ts.SourceFile, meta: ComponentMeta): ComponentProp[] {
+        const props: ComponentProp[] = [];
+        const argument = ts.isExpression(node) ? ScriptParser.unwrap(node) : node;
+
+        // Props venant d'une variable, d'un appel ou d'un spread : la liste n'est pas complète
+        if ((!ts.isArrayLiteralExpression(argument) && !ts.isObjectLiteralExpression(argument)) ||
+            (ts.isObjectLiteralExpression(argument) && argument.properties.some(ts.isSpreadAssignment))) {
+            meta.dynamicProps = true;
+        }
+
+        if (ts.isArrayLiteralExpression(argument)) {
+            for (const literal of ScriptParser.getStringLiterals(argument)) {
+                props.push({ name: literal.text, required: false });
+            }
+        }
+
+        if (ts.isObjectLiteralExpression(argument)) {
+            for (const property of argument.properties) {
+                const name = ScriptParser.getPropertyName(property.name);
+
+                if (!name) {
+                    continue;
+                }
+
+                props.push(ts.isPropertyAssignment(property)
+                    ? this.getRuntimeProp(name, property.initializer, sourceFile)
+                    : { name, required: false });
+            }
+        }
+
+        return props;
+    }
+
+    /**
+     * Une prop déclarée par son type (`String`) ou par ses options (`{ type, required, default }`)
+     */
+    private static getRuntimeProp(name: string, initializer: ts.Expression, sourceFile: ts.SourceFile): ComponentProp {
+        const prop: ComponentProp = { name, required: false };
+        const value = ScriptParser.unwrap(initializer);
+
+        if (!ts.isObjectLiteralExpression(value)) {
+            prop.type = this.getRuntimeType(initializer, sourceFile);
+
+            return prop;
+        }
+
+        const typeValue = ScriptParser.getProperty(value, 'type');
+        const requiredValue = ScriptParser.getPropertyValue(value, 'required');
+        const defaultValue = ScriptParser.getProperty(value, 'default');
+
+        prop.type = typeValue && ts.isPropertyAssignment(typeValue)
+            ? this.getRuntimeType(typeValue.initializer, sourceFile)
+            : undefined;
+
+        // `type: String as PropType<'sm' | 'md'>`
+        if (typeValue && ts.isPropertyAssignment(typeValue) && ts.isAsExpression(typeValue.initializer) &&
+            ts.isTypeReferenceNode(typeValue.initializer.type) && typeValue.initializer.type.typeArguments?.[0]) {
+            prop.values = this.getLiteralValues(typeValue.initializer.type.typeArguments[0], sourceFile);
+        }
+        prop.required = requiredValue?.kind === ts.SyntaxKind.TrueKeyword;
+
+        if (defaultValue && ts.isPropertyAssignment(defaultValue)) {
+            prop.default = this.getDefaultText(defaultValue.initializer, sourceFile);
+        }
+
+        return prop;
+    }
+
+    private static addProps(meta: ComponentMeta, props: ComponentProp[]): void {
+        for (const prop of props) {
+            if (!meta.props.some(existing => existing.name === prop.name)) {
+                meta.props.push(prop);
+            }
+        }
+    }
+
+    /**
+     * `defineModel<string>()`, `defineModel('count', { type: Number, required: true })` :
+     * une prop et son événement `update:*`
+     */
+    private static collectModel(call: ts.CallExpression, sourceFile: ts.SourceFile, meta: ComponentMeta): void {
+        const [first, second] = call.arguments.map(argument => ScriptParser.unwrap(argument));
+
+        const name = first && ts.isStringLiteralLike(first) ? first.text : 'modelValue';
+        const options = [first, second].find((argument): argument is ts.ObjectLiteralExpression =>
+            !!argument && ts.isObjectLiteralExpression(argument)
+        );
+
+        const model = options ? this.getRuntimeProp(name, options, sourceFile) : { name, required: false } as ComponentProp;
+
+        if (call.typeArguments?.[0]) {
+            model.type = call.typeArguments[0].getText(sourceFile);
+            model.values = this.getLiteralValues(call.typeArguments[0], sourceFile);
+        }
+
+        if (!meta.models.some(existing => existing.name === name)) {
+            meta.models.push(model);
+        }
+
+        this.addProps(meta, [model]);
+        this.addUnique(meta.emits, `update:${name}`);
+    }
+
+    /**
+     * Options API : `defineComponent({ props, emits, expose })`, `defineNuxtComponent(...)` ou `export default { ... }`
+     */
+    private static collectOptions(block: ParsedScriptBlock, meta: ComponentMeta): void {
+        const sourceFile = block.ast;
+
+        for (const options of this.findComponentOptions(sourceFile)) {
+            const props = ScriptParser.getPropertyValue(options, 'props');
+
+            if (props) {
+                this.addProps(meta, this.getRuntimeProps(props, sourceFile, meta));
+            }
+
+            // Les props et événements hérités ne sont pas analysés
+            if (ScriptParser.getProperty(options, 'mixins') || ScriptParser.getProperty(options, 'extends')) {
+                meta.dynamicProps = true;
+                meta.dynamicEmits = true;
+            }
+
+            const emits = ScriptParser.getPropertyValue(options, 'emits');
+
+            if (emits) {
+                const { declarations, dynamic } = this.getRuntimeEmitDeclarations(emits);
+
+                declarations.forEach(declaration => this.addUnique(meta.emits, declaration.name));
+
+                meta.dynamicEmits = meta.dynamicEmits || dynamic;
+            }
+
+            ScriptParser.getStringLiterals(ScriptParser.getPropertyValue(options, 'expose'))
+                .forEach(literal => this.addUnique(meta.exposed, literal.text));
+        }
+    }
+
+    private static findComponentOptions(sourceFile: ts.SourceFile): ts.ObjectLiteralExpression[] {
+        const options: ts.ObjectLiteralExpression[] = [];
+
+        for (const calleeName of ['defineComponent', 'defineNuxtComponent']) {
+            for (const call of ScriptParser.findCalls(sourceFile, calleeName)) {
+                const argument = call.arguments[0] && ScriptParser.unwrap(call.arguments[0]);
+
+                if (argument && ts.isObjectLiteralExpression(argument)) {
+                    options.push(argument);
+                }
+            }
+        }
+
+        for (const statement of sourceFile.statements) {
+            if (ts.isExportAssignment(statement)) {
+                const expression = ScriptParser.unwrap(statement.expression);
+
+                if (ts.isObjectLiteralExpression(expression)) {
+                    options.push(expression);
+                }
+            }
+        }
+
+        return options;
+    }
+
+    /**
+     * `const { size = 'md' } = defineProps<Props>()` (Vue 3.5)
+     */
+    private static collectDestructuredDefaults(call: ts.CallExpression, sourceFile: ts.SourceFile, defaults: Map<string, string>): void {
+        const declaration = call.parent;
+
+        if (!ts.isVariableDeclaration(declaration) || !ts.isObjectBindingPattern(declaration.name)) {
+            return;
+        }
+
+        for (const element of declaration.name.elements) {
+            const nameNode = element.propertyName ?? element.name;
+            const name = ts.isIdentifier(nameNode) || ts.isStringLiteral(nameNode) ? nameNode.text : undefined;
+
+            if (name && element.initializer) {
+                defaults.set(name, this.getDefaultText(element.initializer, sourceFile));
+            }
+        }
+    }
+
+    private static collectEmits(call: ts.CallExpression, sourceFile: ts.SourceFile, meta: ComponentMeta): void {
+        const { declarations, dynamic } = this.getMacroEmitDeclarations(call, sourceFile);
+
+        declarations.forEach(declaration => this.addUnique(meta.emits, declaration.name));
+
+        meta.dynamicEmits = meta.dynamicEmits || dynamic;
+    }
+
+    /**
+     * Événements déclarés par `defineEmits`, avec le nœud qui déclare chacun d'eux
+     */
+    private static getMacroEmitDeclarations(call: ts.CallExpression, sourceFile: ts.SourceFile): { declarations: ComponentDeclaration[], dynamic: boolean } {
+        const declarations: ComponentDeclaration[] = [];
+        const typeArgument = call.typeArguments?.[0];
+
+        for (const member of typeArgument ? this.getTypeMembers(typeArgument, sourceFile) : []) {
+            // defineEmits<{ (e: 'change', value: string): void }>()
+            if (ts.isCallSignatureDeclaration(member)) {
+                const eventType = member.parameters[0]?.type;
+
+                for (const literalType of eventType ? this.getStringLiteralTypes(eventType) : []) {
+                    declarations.push({ name: (literalType.literal as ts.StringLiteral).text, node: literalType });
+                }
+
+                continue;
+            }
+
+            // defineEmits<{ change: [value: string] }>()
+            const name = ScriptParser.getPropertyName(member.name);
+
+            if (name && member.name) {
+                declarations.push({ name, node: member.name });
+            }
+        }
+
+        const dynamic = !!typeArgument && this.hasUnresolvedType(typeArgument, sourceFile);
+
+        if (!call.arguments[0]) {
+            return { declarations, dynamic };
+        }
+
+        // defineEmits(['change']) / defineEmits({ change: (value) => true })
+        const runtime = this.getRuntimeEmitDeclarations(call.arguments[0]);
+
+        return { declarations: [...declarations, ...runtime.declarations], dynamic: dynamic || runtime.dynamic };
+    }
+
+    /**
+     * Événements déclarés à l'exécution : `['change']` ou `{ change: (value) => true }`
+     */
+    private static getRuntimeEmitDeclarations(node: ts.Node): { declarations: ComponentDeclaration[], dynamic: boolean } {
+        const value = ts.isExpression(node) ? ScriptParser.unwrap(node) : node;
+
+        if (ts.isArrayLiteralExpression(value)) {
+            return {
+                declarations: ScriptParser.getStringLiterals(value).map(literal => ({ name: literal.text, node: literal })),
+                dynamic: value.elements.some(element => !ts.isStringLiteralLike(element))
+            };
+        }
+
+        if (ts.isObjectLiteralExpression(value)) {
+            const declarations: ComponentDeclaration[] = [];
+
+            for (const property of value.properties) {
+                const name = ScriptParser.getPropertyName(property.name);
+
+                if (name && property.name) {
+                    declarations.push({ name, node: property.name });
+                }
+            }
+
+            return { declarations, dynamic: value.properties.some(ts.isSpreadAssignment) };
+        }
+
+        return { declarations: [], dynamic: true };
+    }
+
+    /**
+     * Positions des événements déclarés par un composant (`defineEmits` ou option `emits`), pour les CodeLens
+     */
+    static findEmitDeclarations(content: string, filePath: string): { name: string, offset: number }[] {
+        return this.findDeclarations(content, filePath, block => block.setup
+            ? ScriptParser.findCalls(block.ast, 'defineEmits').flatMap(call => this.getMacroEmitDeclarations(call, block.ast).declarations)
+            : this.findComponentOptions(block.ast).flatMap(options => {
+                const emits = ScriptParser.getPropertyValue(options, 'emits');
+
+                return emits ? this.getRuntimeEmitDeclarations(emits).declarations : [];
+            }));
+    }
+
+    /**
+     * Positions des props déclarées par un composant (`defineProps`, `defineModel` ou option `props`), pour les CodeLens
+     */
+    static findPropDeclarations(content: string, filePath: string): { name: string, offset: number }[] {
+        return this.findDeclarations(content, filePath, block => block.setup
+            ? [
+                ...ScriptParser.findCalls(block.ast, 'defineProps').flatMap(call => this.getMacroPropDeclarations(call, block.ast)),
+                ...ScriptParser.findCalls(block.ast, 'defineModel').map(call => {
+                    const first = call.arguments[0] && ScriptParser.unwrap(call.arguments[0]);
+
+                    return { name: first && ts.isStringLiteralLike(first) ? first.text : 'modelValue', node: call };
+                })
+            ]
+            : this.findComponentOptions(block.ast).flatMap(options => {
+                const props = ScriptParser.getPropertyValue(options, 'props');
+
+                return props ? this.getRuntimePropDeclarations(props) : [];
+            }));
+    }
+
+    /**
+     * Positions des slots déclarés par un composant (`<slot>` du template ou `defineSlots`), pour les CodeLens
+     */
+    static findSlotDeclarations(content: string, filePath: string): { name: string, offset: number }[] {
+        const declarations = this.findDeclarations(content, filePath, block => block.setup
+            ? ScriptParser.findCalls(block.ast, 'defineSlots').flatMap(call => this.getMacroSlotDeclarations(call, block.ast))
+            : []);
+
+        let templateAst;
+
+        try {
+            templateAst = SfcParser.parse(content, filePath).template?.ast;
+        } catch (error) {
+            return declarations;
+        }
+
+        if (templateAst) {
+            TemplateParser.walkElements(templateAst, element => {
+                if (element.tag !== 'slot') {
+                    return;
+                }
+
+                const nameAttribute = TemplateParser.getAttributes(element).find(attribute => attribute.name === 'name');
+                const isDynamic = !nameAttribute && TemplateParser.getDirectives(element, 'bind').some(directive => TemplateParser.getDirectiveArgument(directive) === 'name');
+                const name = nameAttribute?.value?.content || 'default';
+
+                // Un slot peut être rendu à plusieurs endroits : une seule position par nom
+                if (!isDynamic && !declarations.some(declaration => declaration.name === name)) {
+                    declarations.push({ name, offset: element.loc.start.offset });
+                }
+            });
+        }
+
+        return declarations;
+    }
+
+    private static findDeclarations(
+        content: string,
+        filePath: string,
+        collect: (block: ParsedScriptBlock) => ComponentDeclaration[]
+    ): { name: string, offset: number }[] {
+        let sfc: ParsedSfc;
+
+        try {
+            sfc = SfcParser.parse(content, filePath);
+        } catch (error) {
+            return [];
+        }
+
+        return SfcParser.getScriptBlocks(sfc).flatMap(block => collect(block).map(declaration => ({
+            name: declaration.name,
+            offset: SfcParser.getNodeOffset(block, declaration.node)
+        })));
+    }
+
+    /**
+     * Props déclarées par le type de `defineProps` ou par son argument, avec leur nœud
+     */
+    private static getMacroPropDeclarations(call: ts.CallExpression, sourceFile: ts.SourceFile): ComponentDeclaration[] {
+        const declarations: ComponentDeclaration[] = [];
+        const typeArgument = call.typeArguments?.[0];
+
+        for (const member of typeArgument ? this.getTypeMembers(typeArgument, sourceFile) : []) {
+            const name = ScriptParser.getPropertyName(member.name);
+
+            if (name && member.name && ts.isPropertySignature(member)) {
+                declarations.push({ name, node: member.name });
+            }
+        }
+
+        return call.arguments[0]
+            ? [...declarations, ...this.getRuntimePropDeclarations(call.arguments[0])]
+            : declarations;
+    }
+
+    /**
+     * Slots déclarés par le type de `defineSlots`, avec leur nœud
+     */
+    private static getMacroSlotDeclarations(call: ts.CallExpression, sourceFile: ts.SourceFile): ComponentDeclaration[] {
+        const typeArgument = call.typeArguments?.[0];
+        const declarations: ComponentDeclaration[] = [];
+
+        for (const member of typeArgument ? this.getTypeMembers(typeArgument, sourceFile) : []) {
+            const name = ScriptParser.getPropertyName(member.name);
+
+            if (name && member.name) {
+                declarations.push({ name, node: member.name });
+            }
+        }
+
+        return declarations;
+    }
+
+    private static getRuntimePropDeclarations(node: ts.Node): ComponentDeclaration[] {
+        const value = ts.isExpression(node) ? ScriptParser.unwrap(node) : node;
+
+        if (ts.isArrayLiteralExpression(value)) {
+            return ScriptParser.getStringLiterals(value).map(literal => ({ name: literal.text, node: literal }));
+        }
+
+        if (ts.isObjectLiteralExpression(value)) {
+            const declarations: ComponentDeclaration[] = [];
+
+            for (const property of value.properties) {
+                const name = ScriptParser.getPropertyName(property.name);
+
+                if (name && property.name) {
+                    declarations.push({ name, node: property.name });
+                }
+            }
+
+            return declarations;
+        }
+
+        return [];
+    }
+
+    /**
+     * Membres d'un type littéral, d'une intersection ou d'une interface / d'un alias déclaré dans le même script
+     */
+    private static getTypeMembers(typeNode: ts.TypeNode, sourceFile: ts.SourceFile, visited: Set<string> = new Set()): ts.TypeElement[] {
+        if (ts.isTypeLiteralNode(typeNode)) {
+            return [...typeNode.members];
+        }
+
+        if (ts.isIntersectionTypeNode(typeNode)) {
+            return typeNode.types.flatMap(type => this.getTypeMembers(type, sourceFile, visited));
+        }
+
+        if (ts.isParenthesizedTypeNode(typeNode)) {
+            return this.getTypeMembers(typeNode.type, sourceFile, visited);
+        }
+
+        if (!ts.isTypeReferenceNode(typeNode) || !ts.isIdentifier(typeNode.typeName)) {
+            return [];
+        }
+
+        const typeName = typeNode.typeName.text;
+
+        if (visited.has(typeName)) {
+            return [];
+        }
+
+        visited.add(typeName);
+
+        for (const statement of sourceFile.statements) {
+            if (ts.isInterfaceDeclaration(statement) && statement.name.text === typeName) {
+                // interface Props extends BaseProps { ... }
+                const inherited = (statement.heritageClauses || [])
+                    .flatMap(clause => clause.types)
+                    .flatMap(heritage => ts.isIdentifier(heritage.expression)
+                        ? this.getTypeMembers(ts.factory.createTypeReferenceNode(heritage.expression.text), sourceFile, visited)
+                        : []);
+
+                return [...inherited, ...statement.members];
+            }
+
+            if (ts.isTypeAliasDeclaration(statement) && statement.name.text === typeName) {
+                return this.getTypeMembers(statement.type, sourceFile, visited);
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * Indique si un type fait référence à un type qui n'est pas déclaré dans le script (import, type utilitaire...)
+     */
+    private static hasUnresolvedType(typeNode: ts.TypeNode, sourceFile: ts.SourceFile, visited: Set<string> = new Set()): boolean {
+        if (ts.isTypeLiteralNode(typeNode)) {
+            return false;
+        }
+
+        if (ts.isIntersectionTypeNode(typeNode)) {
+            return typeNode.types.some(type => this.hasUnresolvedType(type, sourceFile, visited));
+        }
+
+        if (ts.isParenthesizedTypeNode(typeNode)) {
+            return this.hasUnresolvedType(typeNode.type, sourceFile, visited);
+        }
+
+        if (!ts.isTypeReferenceNode(typeNode) || !ts.isIdentifier(typeNode.typeName)) {
+            return true;
+        }
+
+        const typeName = typeNode.typeName.text;
+
+        if (visited.has(typeName)) {
+            return false;
+        }
+
+        visited.add(typeName);
+
+        for (const statement of sourceFile.statements) {
+            if (ts.isInterfaceDeclaration(statement) && statement.name.text === typeName) {
+                return (statement.heritageClauses || [])
+                    .flatMap(clause => clause.types)
+                    .some(heritage => !ts.isIdentifier(heritage.expression) ||
+                        this.hasUnresolvedType(ts.factory.createTypeReferenceNode(heritage.expression.text), sourceFile, visited));
+            }
+
+            if (ts.isTypeAliasDeclaration(statement) && statement.name.text === typeName) {
+                return this.hasUnresolvedType(statement.type, sourceFile, visited);
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * `'a' | 'b'` → les deux types littéraux
+     */
+    private static getStringLiteralTypes(typeNode: ts.TypeNode): ts.LiteralTypeNode[] {
+        if (ts.isUnionTypeNode(typeNode)) {
+            return typeNode.types.flatMap(type => this.getStringLiteralTypes(type));
+        }
+
+        if (ts.isLiteralTypeNode(typeNode) && ts.isStringLiteral(typeNode.literal)) {
+            return [typeNode];
+        }
+
+        return [];
+    }
+
+    /**
+     * Valeurs d'un type union de littéraux, alias locaux compris (`type Size = 'sm' | 'md'`) ;
+     * `undefined` si le type n'est pas entièrement fait de littéraux
+     */
+    private static getLiteralValues(typeNode: ts.TypeNode, sourceFile: ts.SourceFile, visited: Set<string> = new Set()): string[] | undefined {
+        if (ts.isUnionTypeNode(typeNode)) {
+            const values = typeNode.types
+                // `size?: 'sm' | 'md' | undefined`
+                .filter(type => type.kind !== ts.SyntaxKind.UndefinedKeyword && !(ts.isLiteralTypeNode(type) && type.literal.kind === ts.SyntaxKind.NullKeyword))
+                .map(type => this.getLiteralValues(type, sourceFile, visited));
+
+            return values.every(Boolean) ? values.flatMap(value => value!) : undefined;
+        }
+
+        if (ts.isParenthesizedTypeNode(typeNode)) {
+            return this.getLiteralValues(typeNode.type, sourceFile, visited);
+        }
+
+        if (ts.isLiteralTypeNode(typeNode)) {
+            const literal = typeNode.literal;
+
+            if (ts.isStringLiteral(literal)) {
+                return [`'${literal.text}'`];
+            }
+
+            if (ts.isNumericLiteral(literal) || literal.kind === ts.SyntaxKind.TrueKeyword || literal.kind === ts.SyntaxKind.FalseKeyword) {
+                return [literal.getText(sourceFile)];
+            }
+
+            return undefined;
+        }
+
+        if (!ts.isTypeReferenceNode(typeNode) || !ts.isIdentifier(typeNode.typeName) || visited.has(typeNode.typeName.text)) {
+            return undefined;
+        }
+
+        const typeName = typeNode.typeName.text;
+
+        visited.add(typeName);
+
+        const alias = sourceFile.statements.find((statement): statement is ts.TypeAliasDeclaration =>
+            ts.isTypeAliasDeclaration(statement) && statement.name.text === typeName
+        );
+
+        return alias ? this.getLiteralValues(alias.type, sourceFile, visited) : undefined;
+    }
+
+    /**
+     * Type d'une prop déclarée à l'exécution : `String`, `[String, Number]`, `Object as PropType<User>`
+     */
+    private static getRuntimeType(expression: ts.Expression, sourceFile: ts.SourceFile): string | undefined {
+        if (ts.isAsExpression(expression) && ts.isTypeReferenceNode(expression.type) &&
+            expression.type.typeName.getText(sourceFile) === 'PropType' && expression.type.typeArguments?.[0]) {
+            return expression.type.typeArguments[0].getText(sourceFile);
+        }
+
+        const value = ScriptParser.unwrap(expression);
+
+        if (ts.isIdentifier(value)) {
+            return this.runtimeTypes[value.text] ?? value.text;
+        }
+
+        if (ts.isArrayLiteralExpression(value)) {
+            const types = value.elements.map(element => this.getRuntimeType(element, sourceFile)).filter(Boolean);
+
+            return types.length > 0 ? types.join(' | ') : undefined;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Texte d'une valeur par défaut ; les fabriques (`() => []`) sont réduites à la valeur retournée
+     */
+    private static getDefaultText(expression: ts.Expression, sourceFile: ts.SourceFile): string {
+        const value = ScriptParser.unwrap(expression);
+
+        if (ts.isArrowFunction(value) && !ts.isBlock(value.body)) {
+            return ScriptParser.unwrap(value.body).getText(sourceFile);
+        }
+
+        return value.getText(sourceFile);
+    }
+
+    private static addUnique(list: string[], value: string): void {
+        if (!list.includes(value)) {
+            list.push(value);
+        }
+    }
+}
@@ -0,0 +1,310 @@
+import * as ts from 'typescript';
+
+/**
+ * Fonction pouvant exposer des membres via `return { ... }`
+ */
+export type FunctionLike = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction | ts.MethodDeclaration;
+
+/**
+ * Fonction exportée par un module (composable, utilitaire...)
+ */
+export interface ExportedFunction {
+    name: string;
+    nameNode: ts.Identifier;
+    node: FunctionLike;
+}
+
+/**
+ * TypeScript AST helpers shared by the services.
+ * Remplace les expressions régulières qui cassaient sur les accolades imbriquées, les commentaires et les chaînes.
+ */
+export class ScriptParser {
+    /**
+     * Construit l'AST TypeScript d'un script
+     */
+    static parse(content: string, fileName: string = 'script.ts', lang?: string): ts.SourceFile {
+        const scriptKind = this.getScriptKind(lang || fileName.split('.').pop() || 'ts');
+
+        return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, scriptKind);
+    }
+
+    private static getScriptKind(lang: string): ts.ScriptKind {
+        switch (lang) {
+            case 'js':
+            case 'mjs':
+            case 'cjs':
+                return ts.ScriptKind.JS;
+            case 'jsx':
+                return ts.ScriptKind.JSX;
+            case 'tsx':
+                return ts.ScriptKind.TSX;
+            default:
+                return ts.ScriptKind.TS;
+        }
+    }
+
+    /**
+     * Parcourt récursivement tous les nœuds de l'AST
+     */
+    static walk(node: ts.Node, visit: (node: ts.Node) => void): void {
+        visit(node);
+
+        ts.forEachChild(node, child => this.walk(child, visit));
+    }
+
+    /**
+     * Retourne le nom appelé par une expression d'appel (`foo()` ou `a.foo()`)
+     */
+    static getCalleeName(call: ts.CallExpression): string | undefined {
+        const expression = call.expression;
+
+        if (ts.isIdentifier(expression)) {
+            return expression.text;
+        }
+
+        if (ts.isPropertyAccessExpression(expression)) {
+            return expression.name.text;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Trouve tous les appels à une fonction donnée
+     */
+    static findCalls(root: ts.Node, calleeName: string): ts.CallExpression[] {
+        const calls: ts.CallExpression[] = [];
+
+        this.walk(root, node => {
+            if (ts.isCallExpression(node) && this.getCalleeName(node) === calleeName) {
+                calls.push(node);
+            }
+        });
+
+        return calls;
+    }
+
+    /**
+     * Retourne le nom statique d'une propriété d'objet
+     */
+    static getPropertyName(name: ts.PropertyName | undefined): string | undefined {
+        if (!name) {
+            return undefined;
+        }
+
+        if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)) {
+            return name.text;
+        }
+
+        if (ts.isComputedPropertyName(name) && ts.isStringLiteralLike(name.expression)) {
+            return name.expression.text;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Retourne la valeur d'une propriété d'un objet littéral
+     */
+    static getProperty(object: ts.ObjectLiteralExpression, propertyName: string): ts.ObjectLiteralElementLike | undefined {
+        return object.properties.find(property => this.getPropertyName(property.name) === propertyName);
+    }
+
+    /**
+     * Retourne l'expression associée à une propriété (`key: value`, `key`, ou `key() {}`)
+     */
+    static getPropertyValue(object: ts.ObjectLiteralExpression, propertyName: string): ts.Node | undefined {
+        const property = this.getProperty(object, propertyName);
+
+        if (!property) {
+            return undefined;
+        }
+
+        if (ts.isPropertyAssignment(property)) {
+            return this.unwrap(property.initializer);
+        }
+
+        if (ts.isShorthandPropertyAssignment(property)) {
+            return property.name;
+        }
+
+        return property;
+    }
+
+    /**
+     * Liste les noms de propriétés d'un objet littéral (hors spread)
+     */
+    static getPropertyNames(object: ts.ObjectLiteralExpression): string[] {
+        return object.properties
+            .map(property => this.getPropertyName(property.name))
+            .filter((name): name is string => !!name);
+    }
+
+    /**
+     * Retourne les chaînes d'un littéral (`'a'`) ou d'un tableau de littéraux (`['a', 'b']`)
+     */
+    static getStringLiterals(node: ts.Node | undefined): ts.StringLiteralLike[] {
+        if (!node) {
+            return [];
+        }
+
+        const expression = ts.isExpression(node) ? this.unwrap(node) : node;
+
+        if (ts.isStringLiteralLike(expression)) {
+            return [expression];
+        }
+
+        if (ts.isArrayLiteralExpression(expression)) {
+            return expression.elements.filter(ts.isStringLiteralLike);
+        }
+
+        return [];
+    }
+
+    /**
+     * Retire les parenthèses et les assertions de type (`(x as T)`, `x satisfies T`)
+     */
+    static unwrap(expression: ts.Expression): ts.Expression {
+        let current = expression;
+
+        while (
+            ts.isParenthesizedExpression(current) ||
+            ts.isAsExpression(current) ||
+            ts.isSatisfiesExpression(current) ||
+            ts.isTypeAssertionExpression(current) ||
+            ts.isNonNullExpression(current)
+        ) {
+            current = current.expression;
+        }
+
+        return current;
+    }
+
+    static isFunctionLike(node: ts.Node | undefined): node is FunctionLike {
+        return !!node && (
+            ts.isFunctionDeclaration(node) ||
+            ts.isFunctionExpression(node) ||
+            ts.isArrowFunction(node) ||
+            ts.isMethodDeclaration(node)
+        );
+    }
+
+    /**
+     * Liste les fonctions exportées (`export function`, `export const x = () => {}`, `export default function x`)
+     */
+    static findExportedFunctions(sourceFile: ts.SourceFile): ExportedFunction[] {
+        const functions: ExportedFunction[] = [];
+
+        for (const statement of sourceFile.statements) {
+            const isExported = ts.canHaveModifiers(statement) &&
+                (ts.getModifiers(statement) || []).some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+
+            if (!isExported) {
+                continue;
+            }
+
+            if (ts.isFunctionDeclaration(statement) && statement.name) {
+                functions.push({ name: statement.name.text, nameNode: statement.name, node: statement });
+            }
+
+            if (ts.isVariableStatement(statement)) {
+                for (const declaration of statement.declarationList.declarations) {
+                    const initializer = declaration.initializer && this.unwrap(declaration.initializer);
+
+                    if (ts.isIdentifier(declaration.name) && this.isFunctionLike(initializer)) {
+                        functions.push({ name: declaration.name.text, nameNode: declaration.name, node: initializer });
+                    }
+                }
+            }
+        }
+
+        return functions;
+    }
+
+    /**
+     * Retourne l'objet littéral renvoyé par une fonction (`return { ... }` ou `() => ({ ... })`),
+     * sans descendre dans les fonctions imbriquées
+     */
+    static findReturnedObject(fn: FunctionLike): ts.ObjectLiteralExpression | undefined {
+        if (!fn.body) {
+            return undefined;
+        }
+
+        if (!ts.isBlock(fn.body)) {
+            const expression = this.unwrap(fn.body);
+
+            return ts.isObjectLiteralExpression(expression) ? expression : undefined;
+        }
+
+        let returned: ts.ObjectLiteralExpression | undefined;
+
+        const visit = (node: ts.Node) => {
+            if (this.isFunctionLike(node) || ts.isClassLike(node)) {
+                return;
+            }
+
+            if (ts.isReturnStatement(node) && node.expression) {
+                const expression = this.unwrap(node.expression);
+
+                if (ts.isObjectLiteralExpression(expression)) {
+                    returned = expression;
+                }
+            }
+
+            ts.forEachChild(node, visit);
+        };
+
+        ts.forEachChild(fn.body, visit);
+
+        return returned;
+    }
+
+    /**
+     * Trouve la déclaration d'un nom dans le corps d'une fonction (variable ou fonction)
+     */
+    static findDeclaration(fn: FunctionLike, name: string): ts.VariableDeclaration | ts.FunctionDeclaration | undefined {
+        if (!fn.body || !ts.isBlock(fn.body)) {
+            return undefined;
+        }
+
+        let found: ts.VariableDeclaration | ts.FunctionDeclaration | undefined;
+
+        const visit = (node: ts.Node) => {
+            if (found) {
+                return;
+            }
+
+            if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === name) {
+                found = node;
+
+                return;
+            }
+
+            if (ts.isFunctionDeclaration(node) && node.name?.text === name) {
+                found = node;
+
+                return;
+            }
+
+            // Les déclarations des fonctions imbriquées ne sont pas exposées
+            if (this.isFunctionLike(node)) {
+                return;
+            }
+
+            ts.forEachChild(node, visit);
+        };
+
+        ts.forEachChild(fn.body, visit);
+
+        return found;
+    }
+
+    /**
+     * Retourne le nom d'une fonction appelée en initialisation (`const x = computed(...)` → `computed`)
+     */
+    static getInitializerCallee(declaration: ts.VariableDeclaration): string | undefined {
+        const initializer = declaration.initializer && this.unwrap(declaration.initializer);
+
+        return initializer && ts.isCallExpression(initializer) ? this.getCalleeName(initializer) : undefined;
+    }
+}
@@ -0,0 +1,117 @@
+import * as ts from 'typescript';
+import { parse as parseSfc } from '@vue/compiler-sfc';
+import type { RootNode, TemplateChildNode } from '@vue/compiler-dom';
+import { ScriptParser } from './ScriptParser';
+
+/**
+ * Bloc `<script>` ou `<script setup>` d'un fichier Vue avec son AST TypeScript
+ */
+export interface ParsedScriptBlock {
+    content: string;
+    /** Position du contenu du bloc dans le fichier complet */
+    offset: number;
+    lang: string;
+    setup: boolean;
+    ast: ts.SourceFile;
+}
+
+/**
+ * Bloc `<template>` d'un fichier Vue avec son AST
+ */
+export interface ParsedTemplateBlock {
+    content: string;
+    offset: number;
+    lang: string;
+    /** Les positions de l'AST sont relatives au fichier complet */
+    ast?: RootNode | TemplateChildNode;
+}
+
+/**
+ * Fichier Vue découpé en blocs
+ */
+export interface ParsedSfc {
+    template?: ParsedTemplateBlock;
+    script?: ParsedScriptBlock;
+    scriptSetup?: ParsedScriptBlock;
+}
+
+/**
+ * Splits `.vue` files into template/script/script setup blocks and builds their syntax trees.
+ * Les fichiers TS/JS sont exposés comme un unique bloc script.
+ */
+export class SfcParser {
+    /**
+     * Analyse un fichier Vue, TS ou JS
+     */
+    static parse(content: string, fileName: string): ParsedSfc {
+        if (!fileName.endsWith('.vue')) {
+            return {
+                script: {
+                    content,
+                    offset: 0,
+                    lang: fileName.split('.').pop() || 'ts',
+                    setup: false,
+                    ast: ScriptParser.parse(content, fileName)
+                }
+            };
+        }
+
+        const { descriptor } = parseSfc(content, {
+            filename: fileName,
+            sourceMap: false,
+            ignoreEmpty: false
+        });
+
+        const result: ParsedSfc = {};
+
+        if (descriptor.template) {
+            const lang = descriptor.template.lang || 'html';
+
+            result.template = {
+                content: descriptor.template.content,
+                offset: descriptor.template.loc.start.offset,
+                lang,
+                // Les templates pug & co ne peuvent pas être analysés par le compilateur Vue
+                ast: lang === 'html' ? descriptor.template.ast : undefined
+            };
+        }
+
+        for (const block of [descriptor.script, descriptor.scriptSetup]) {
+            if (!block) {
+                continue;
+            }
+
+            const lang = block.lang || 'js';
+
+            const parsed: ParsedScriptBlock = {
+                content: block.content,
+                offset: block.loc.start.offset,
+                lang,
+                setup: !!block.setup,
+                ast: ScriptParser.parse(block.content, `${fileName}.${lang}`, lang)
+            };
+
+            if (parsed.setup) {
+                result.scriptSetup = parsed;
+            } else {
+                result.script = parsed;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Retourne les blocs script d'un fichier (script puis script setup)
+     */
+    static getScriptBlocks(sfc: ParsedSfc): ParsedScriptBlock[] {
+        return [sfc.script, sfc.scriptSetup].filter((block): block is ParsedScriptBlock => !!block);
+    }
+
+    /**
+     * Position absolue (dans le fichier) du début d'un nœud d'un bloc script
+     */
+    static getNodeOffset(block: ParsedScriptBlock, node: ts.Node): number {
+        return block.offset + node.getStart(block.ast);
+    }
+}
@@ -0,0 +1,108 @@
+import { NodeTypes } from '@vue/compiler-dom';
+import type { AttributeNode, DirectiveNode, ElementNode, RootNode, SourceLocation, TemplateChildNode } from '@vue/compiler-dom';
+
+/**
+ * Template AST helpers shared by the services
+ */
+export class TemplateParser {
+    /**
+     * Parcourt récursivement tous les éléments d'un AST de template
+     */
+    static walkElements(root: RootNode | TemplateChildNode, visit: (element: ElementNode, parent?: ElementNode) => void): void {
+        const walk = (node: RootNode | TemplateChildNode, parent?: ElementNode) => {
+            if (node.type === NodeTypes.ELEMENT) {
+                visit(node, parent);
+            }
+
+            const children = 'children' in node && Array.isArray(node.children) ? node.children : [];
+
+            for (const child of children as TemplateChildNode[]) {
+                walk(child, node.type === NodeTypes.ELEMENT ? node : parent);
+            }
+        };
+
+        walk(root);
+    }
+
+    /**
+     * Retourne la fin (exclue) de la balise ouvrante d'un élément dans le fichier
+     */
+    static getStartTagEnd(element: ElementNode, source: string): number {
+        const lastProp = element.props[element.props.length - 1];
+
+        const searchFrom = lastProp
+            ? lastProp.loc.end.offset
+            : element.loc.start.offset + 1 + element.tag.length;
+
+        const closeIndex = source.indexOf('>', searchFrom);
+
+        return closeIndex === -1 ? element.loc.end.offset : closeIndex + 1;
+    }
+
+    /**
+     * Retourne les attributs statiques (`name="..."`) d'un élément
+     */
+    static getAttributes(element: ElementNode): AttributeNode[] {
+        return element.props.filter((prop): prop is AttributeNode => prop.type === NodeTypes.ATTRIBUTE);
+    }
+
+    /**
+     * Retourne les directives (`:x`, `@x`, `v-x`, `#x`) d'un élément
+     */
+    static getDirectives(element: ElementNode, name?: string): DirectiveNode[] {
+        return element.props.filter((prop): prop is DirectiveNode =>
+            prop.type === NodeTypes.DIRECTIVE && (name === undefined || prop.name === name)
+        );
+    }
+
+    /**
+     * Retourne l'argument statique d'une directive (`:foo` → `foo`)
+     */
+    static getDirectiveArgument(directive: DirectiveNode): string | undefined {
+        if (directive.arg && directive.arg.type === NodeTypes.SIMPLE_EXPRESSION && directive.arg.isStatic) {
+            return directive.arg.content;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Retourne les slots remplis par une balise de composant : `v-slot` sur la balise, `<template #name>`
+     * parmi ses enfants, ou contenu direct pour le slot par défaut. Les noms dynamiques (`#[name]`) sont ignorés.
+     */
+    static getSlotFills(element: ElementNode): { name: string, loc: SourceLocation }[] {
+        const ownSlot = this.getDirectives(element, 'slot')[0];
+
+        // `<Comp v-slot="props">` : tout le contenu va dans un seul slot
+        if (ownSlot) {
+            const name = ownSlot.arg ? this.getDirectiveArgument(ownSlot) : 'default';
+
+            return name ? [{ name, loc: ownSlot.loc }] : [];
+        }
+
+        const fills: { name: string, loc: SourceLocation }[] = [];
+        let defaultContent: TemplateChildNode | undefined;
+
+        for (const child of element.children) {
+            const slot = child.type === NodeTypes.ELEMENT && child.tag === 'template'
+                ? this.getDirectives(child, 'slot')[0]
+                : undefined;
+
+            if (slot) {
+                const name = slot.arg ? this.getDirectiveArgument(slot) : 'default';
+
+                if (name) {
+                    fills.push({ name, loc: slot.loc });
+                }
+            } else if (!defaultContent && child.type !== NodeTypes.COMMENT && !(child.type === NodeTypes.TEXT && !child.content.trim())) {
+                defaultContent = child;
+            }
+        }
+
+        if (defaultContent && !fills.some(fill => fill.name === 'default')) {
+            fills.push({ name: 'default', loc: defaultContent.loc });
+        }
+
+        return fills;
+    }
+}
@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AutoImportEntry, NuxtImportMap } from '../types';
+
+/**
+ * Reads the declarations Nuxt generates in its build directory (`nuxi prepare`, `nuxi dev`)
+ * to know exactly which file each auto-imported component or function comes from,
+ * y compris ceux des modules (Nuxt UI, VueUse...). Retourne null tant qu'ils n'ont pas été générés.
+ */
+export class ImportMapLoader implements vscode.Disposable {
+    private importMap: NuxtImportMap | null | undefined;
+    private fileWatcher: vscode.FileSystemWatcher;
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+
+    private static readonly componentsDeclarationFile = 'components.d.ts';
+    private static readonly importsDeclarationFiles = [path.join('types', 'imports.d.ts'), 'imports.d.ts'];
+    private static readonly moduleExtensions = ['', '.ts', '.js', '.mjs', '.vue', '.tsx', '.jsx', '/index.ts', '/index.js', '/index.mjs'];
+
+    /**
+     * Fired when the generated declarations are created, regenerated or removed
+     */
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    /**
+     * @param buildDir dossier de build de Nuxt (`buildDir`, `.nuxt` par défaut)
+     */
+    constructor(private buildDir: string) {
+        this.fileWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(buildDir, '{components.d.ts,imports.d.ts,types/imports.d.ts}')
+        );
+
+        const invalidate = () => {
+            this.importMap = undefined;
+            this.onDidChangeEmitter.fire();
+        };
+
+        this.fileWatcher.onDidChange(invalidate);
+        this.fileWatcher.onDidCreate(invalidate);
+        this.fileWatcher.onDidDelete(invalidate);
+    }
+
+    /**
+     * Retourne la table des auto-imports, ou null si Nuxt ne l'a pas encore générée
+     */
+    public getImportMap(): NuxtImportMap | null {
+        if (this.importMap === undefined) {
+            this.importMap = this.load();
+        }
+
+        return this.importMap;
+    }
+
+    /**
+     * Fichier d'un composant auto-importé (`AppHeader`, `LazyAppHeader`, `UButton`...)
+     */
+    public findComponent(name: string): AutoImportEntry | undefined {
+        return this.getImportMap()?.components.get(name);
+    }
+
+    /**
+     * Noms sous lesquels un fichier est auto-importé comme composant
+     */
+    public findComponentNames(filePath: string): string[] {
+        const components = this.getImportMap()?.components;
+
+        if (!components) {
+            return [];
+        }
+
+        return [...components.values()]
+            .filter(entry => entry.filePath === filePath)
+            .map(entry => entry.name);
+    }
+
+    /**
+     * Fichier d'une fonction auto-importée (composable, utilitaire, fonction de Nuxt ou d'un module)
+     */
+    public findImport(name: string): AutoImportEntry | undefined {
+        return this.getImportMap()?.imports.get(name);
+    }
+
+    private load(): NuxtImportMap | null {
+        const componentsPath = path.join(this.buildDir, ImportMapLoader.componentsDeclarationFile);
+
+        const importsPath = ImportMapLoader.importsDeclarationFiles
+            .map(fileName => path.join(this.buildDir, fileName))
+            .find(filePath => fs.existsSync(filePath));
+
+        if (!fs.existsSync(componentsPath) && !importsPath) {
+            return null;
+        }
+
+        const importMap: NuxtImportMap = { components: new Map(), imports: new Map() };
+
+        try {
+            if (fs.existsSync(componentsPath)) {
+                const content = fs.readFileSync(componentsPath, 'utf-8');
+
+                importMap.components = ImportMapLoader.parseComponentDeclarations(content, path.dirname(componentsPath));
+            }
+
+            if (importsPath) {
+                const content = fs.readFileSync(importsPath, 'utf-8');
+
+                importMap.imports = ImportMapLoader.parseImportDeclarations(content, path.dirname(importsPath));
+            }
+        } catch (error) {
+            console.error('Error reading Nuxt generated declarations:', error);
+        }
+
+        return importMap;
+    }
+
+    /**
+     * `'AppHeader': typeof import("../components/AppHeader.vue")['default']`
+     * `'LazyAppHeader': LazyComponent<typeof import("../components/AppHeader.vue")['default']>`
+     */
+    static parseComponentDeclarations(content: string, baseDir: string): Map<string, AutoImportEntry> {
+        const components = new Map<string, AutoImportEntry>();
+
+        const componentRegex = /^\s*['"]?([\w$]+)['"]?\s*:\s*(?:[\w$]+<)*typeof import\((['"])(.+?)\2\)\[['"]([\w$]+)['"]\]/gm;
+
+        let match: RegExpExecArray | null;
+
+        while ((match = componentRegex.exec(content))) {
+            const [, name, , modulePath, exportName] = match;
+
+            // Les interfaces sont dupliquées par les `export const` : la première déclaration suffit
+            if (components.has(name)) {
+                continue;
+            }
+
+            components.set(name, { name, filePath: this.resolveModulePath(modulePath, baseDir), exportName });
+        }
+
+        return components;
+    }
+
+    /**
+     * `const useCounter: typeof import('../../composables/counter')['useCounter']` (types/imports.d.ts)
+     * `export { useCounter, useFoo as useBar } from '../composables/counter';` (imports.d.ts)
+     */
+    static parseImportDeclarations(content: string, baseDir: string): Map<string, AutoImportEntry> {
+        const imports = new Map<string, AutoImportEntry>();
+
+        const globalRegex = /\bconst\s+([\w$]+)\s*:\s*typeof import\((['"])(.+?)\2\)\[['"]([\w$]+)['"]\]/g;
+
+        let match: RegExpExecArray | null;
+
+        while ((match = globalRegex.exec(content))) {
+            const [, name, , modulePath, exportName] = match;
+
+            if (!imports.has(name)) {
+                imports.set(name, { name, filePath: this.resolveModulePath(modulePath, baseDir), exportName });
+            }
+        }
+
+        const reExportRegex = /export\s*\{([^}]*)\}\s*from\s*(['"])(.+?)\2/g;
+
+        while ((match = reExportRegex.exec(content))) {
+            const filePath = this.resolveModulePath(match[3], baseDir);
+
+            for (const specifier of match[1].split(',')) {
+                const [exportName, alias] = specifier.trim().split(/\s+as\s+/);
+
+                const name = (alias || exportName || '').trim();
+
+                if (name && !imports.has(name)) {
+                    imports.set(name, { name, filePath, exportName: exportName.trim() });
+                }
+            }
+        }
+
+        return imports;
+    }
+
+    /**
+     * Résout le chemin d'un module relatif au fichier de déclaration ; les paquets restent tels quels
+     */
+    private static resolveModulePath(modulePath: string, baseDir: string): string {
+        if (!modulePath.startsWith('.') && !path.isAbsolute(modulePath)) {
+            return modulePath;
+        }
+
+        const resolved = path.resolve(baseDir, modulePath);
+
+        for (const extension of this.moduleExtensions) {
+            const candidate = resolved + extension;
+
+            if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+                return path.normalize(candidate);
+            }
+        }
+
+        return resolved;
+    }
+
+    public dispose(): void {
+        this.fileWatcher.dispose();
+        this.onDidChangeEmitter.dispose();
+    }
+}
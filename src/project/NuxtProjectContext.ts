@@ -0,0 +1,455 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ComponentService } from '../services/ComponentService';
+import { ComposableService } from '../services/ComposableService';
+import { PluginService } from '../services/PluginService';
+import { MiddlewareService } from '../services/MiddlewareService';
+import { LayoutService } from '../services/LayoutService';
+import { StoreService } from '../services/StoreService';
+import { UtilsService } from '../services/UtilsService';
+import { ProjectIndex } from '../index/ProjectIndex';
+import { IndexStorage } from '../index/IndexStorage';
+import { LayerResolver } from '../config/LayerResolver';
+import { DirectoryResolver } from '../config/DirectoryResolver';
+import { ComponentsConfigResolver } from '../config/ComponentsConfigResolver';
+import { NuxtConfigLoader } from '../config/NuxtConfigLoader';
+import { FileIndexer } from '../index/FileIndexer';
+import { TextUtils } from '../utils/textUtils';
+import { ImportMapLoader } from './ImportMapLoader';
+import type {
+    IndexedDefinition,
+    IndexedUsage,
+    NuxtComponentInfo,
+    NuxtConfigObject,
+    NuxtFileRoles,
+    NuxtLayer,
+    NuxtNameCollision,
+    NuxtSymbolAtPosition,
+    NuxtSymbolDefinition,
+    NuxtSymbolKind,
+    ResolvedComponentsDir
+} from '../types';
+
+/**
+ * Rôle d'un document ouvert, utilisé pour choisir les services à interroger
+ */
+export interface NuxtFileInfo {
+    isVueFile: boolean;
+    isComponent: boolean;
+    isComposable: boolean;
+    isPlugin: boolean;
+    isMiddleware: boolean;
+    isLayout: boolean;
+    isStore: boolean;
+    isUtil: boolean;
+}
+
+/**
+ * Everything that belongs to one Nuxt app: its root, layers, index and services.
+ * Chaque application d'un monorepo a son propre contexte, les références restent donc limitées à l'application.
+ */
+export class NuxtProjectContext implements vscode.Disposable {
+    public readonly layers: NuxtLayer[];
+    public readonly projectIndex: ProjectIndex;
+    public readonly importMap: ImportMapLoader;
+    public readonly autoImportCache: Map<string, NuxtComponentInfo[]> = new Map();
+
+    public readonly componentService: ComponentService;
+    public readonly composableService: ComposableService;
+    public readonly pluginService: PluginService;
+    public readonly middlewareService: MiddlewareService;
+    public readonly layoutService: LayoutService;
+    public readonly storeService: StoreService;
+    public readonly utilsService: UtilsService;
+
+    private componentsDirs: ResolvedComponentsDir[];
+    private indexStorage?: IndexStorage;
+    private indexSubscription: vscode.Disposable;
+    private lastCacheUpdate: number = 0;
+    private cacheUpdateInterval: number = 30000;
+    // Usages des documents ouverts par version : survoler un fichier ne le réanalyse pas à chaque mouvement de souris
+    private documentUsagesCache: Map<string, { version: number, usages: IndexedUsage[] }> = new Map();
+
+    private static readonly documentUsagesCacheSize = 20;
+
+    /**
+     * @param rootDir dossier contenant le nuxt.config de l'application
+     * @param storagePath dossier de stockage de l'extension, où l'index du projet est persisté
+     */
+    constructor(public readonly rootDir: string, storagePath?: string) {
+        // Le projet et les layers qu'il étend (`extends`), du plus prioritaire au moins prioritaire
+        this.layers = LayerResolver.resolve(rootDir);
+        this.componentsDirs = ComponentsConfigResolver.resolveLayers(this.layers);
+
+        this.indexStorage = storagePath
+            ? new IndexStorage(storagePath, rootDir, DirectoryResolver.getFingerprint(this.layers))
+            : undefined;
+
+        this.projectIndex = new ProjectIndex(
+            this.indexStorage,
+            this.layers.map(layer => layer.rootDir),
+            fsPath => this.getFileRoles(fsPath)
+        );
+
+        // Les layers et les dossiers peuvent changer avec nuxt.config ; le tableau est partagé avec les services
+        this.indexSubscription = this.projectIndex.onDidUpdate(({ paths }) => {
+            if (paths.some(filePath => NuxtConfigLoader.configFileNames.includes(path.basename(filePath)))) {
+                this.reloadLayers();
+            }
+        });
+
+        // Déclarations générées par Nuxt dans `.nuxt`, prioritaires sur la détection par dossiers
+        const buildDir = typeof this.config.buildDir === 'string'
+            ? NuxtConfigLoader.resolveAlias(this.config.buildDir, rootDir)
+            : path.join(rootDir, '.nuxt');
+
+        this.importMap = new ImportMapLoader(buildDir);
+
+        this.componentService = new ComponentService(this.autoImportCache, rootDir, this.projectIndex, this.layers, this.importMap);
+        this.composableService = new ComposableService(this.autoImportCache, this.projectIndex, this.importMap);
+        this.pluginService = new PluginService(this.projectIndex);
+        this.middlewareService = new MiddlewareService(this.projectIndex, this.layers);
+        this.layoutService = new LayoutService(this.projectIndex, this.layers);
+        this.storeService = new StoreService(this.autoImportCache, this.projectIndex);
+        this.utilsService = new UtilsService(this.autoImportCache, rootDir, this.projectIndex, this.layers);
+    }
+
+    /**
+     * Configuration statique du nuxt.config de l'application
+     */
+    get config(): NuxtConfigObject {
+        return this.layers[0]?.config ?? {};
+    }
+
+    /**
+     * Construit l'index une seule fois, les mises à jour sont ensuite incrémentales
+     */
+    public ready(): Promise<void> {
+        return this.projectIndex.ready();
+    }
+
+    /**
+     * Indique si un fichier appartient à l'application ou à l'un de ses layers
+     */
+    public containsFile(fsPath: string): boolean {
+        return !!LayerResolver.findLayer(this.layers, fsPath);
+    }
+
+    /**
+     * Recalcule les layers et leurs dossiers, et réindexe le projet s'ils ont changé
+     */
+    private reloadLayers(): void {
+        const previousFingerprint = DirectoryResolver.getFingerprint(this.layers);
+
+        this.layers.splice(0, this.layers.length, ...LayerResolver.resolve(this.rootDir));
+        this.componentsDirs = ComponentsConfigResolver.resolveLayers(this.layers);
+
+        const fingerprint = DirectoryResolver.getFingerprint(this.layers);
+
+        if (fingerprint === previousFingerprint) {
+            return;
+        }
+
+        if (this.indexStorage) {
+            this.indexStorage.fingerprint = fingerprint;
+        }
+
+        this.projectIndex.reindex().catch(error => console.error('Error reindexing project:', error));
+    }
+
+    public getFileRoles(fsPath: string): NuxtFileRoles {
+        return DirectoryResolver.getFileRoles(this.layers, fsPath, this.componentsDirs);
+    }
+
+    public getFileInfo(document: vscode.TextDocument): NuxtFileInfo {
+        const fileDir = path.dirname(document.fileName);
+
+        const fileExtension = path.extname(document.fileName);
+
+        // Rôle d'après les dossiers réellement scannés par Nuxt (srcDir, dir.*, app/ en Nuxt 4)
+        const roles = this.getFileRoles(document.uri.fsPath);
+
+        return {
+            isVueFile: fileExtension === '.vue',
+            isComponent: roles.component || fileDir.includes('components'),
+            // Les lenses de références restent utiles pour les composables et stores non auto-importés
+            isComposable: roles.composable || fileDir.includes('composables'),
+            isPlugin: roles.plugin,
+            isMiddleware: roles.middleware,
+            isLayout: roles.layout,
+            isStore: roles.store || fileDir.includes('stores') || fileDir.includes('store'),
+            isUtil: roles.util ||
+                fileDir.includes('utils') ||
+                fileDir.includes('lib') ||
+                fileDir.includes('services') ||
+                fileDir.includes('types') ||
+                fileDir.includes('helpers') ||
+                fileDir.includes('constants') ||
+                fileDir.includes('schemas') ||
+                fileDir.includes('validationSchemas')
+        };
+    }
+
+    /**
+     * Usages d'un document tel qu'il est édité (l'index ne reflète que la version enregistrée), analysé une fois par version
+     */
+    private getDocumentUsages(document: vscode.TextDocument): IndexedUsage[] {
+        const key = document.uri.toString();
+        const cached = this.documentUsagesCache.get(key);
+
+        if (cached && cached.version === document.version) {
+            return cached.usages;
+        }
+
+        const usages = FileIndexer.indexUsages(document.uri.fsPath, document.getText());
+
+        // Le document le plus récent passe en fin de map, le plus ancien est retiré au-delà de la limite
+        this.documentUsagesCache.delete(key);
+        this.documentUsagesCache.set(key, { version: document.version, usages });
+
+        if (this.documentUsagesCache.size > NuxtProjectContext.documentUsagesCacheSize) {
+            this.documentUsagesCache.delete(this.documentUsagesCache.keys().next().value!);
+        }
+
+        return usages;
+    }
+
+    /**
+     * Retourne le symbole Nuxt utilisé à une position : balise de composant, appel de composable ou de store,
+     * nom de layout ou de middleware, fonction auto-importée
+     */
+    public async getSymbolAt(document: vscode.TextDocument, position: vscode.Position): Promise<NuxtSymbolAtPosition | null> {
+        const usages = this.getDocumentUsages(document);
+
+        const usage = usages.find(candidate =>
+            candidate.line === position.line &&
+            position.character >= candidate.character &&
+            position.character <= candidate.character + candidate.name.length
+        );
+
+        const symbolAt = (kind: NuxtSymbolKind, name: string, character: number, length: number): NuxtSymbolAtPosition =>
+            ({ kind, name, line: position.line, character, length });
+
+        if (usage) {
+            switch (usage.kind) {
+                case 'tag':
+                    return symbolAt('component', await this.componentService.resolveTagComponentName(usage.name), usage.character, usage.name.length);
+                case 'layout':
+                case 'middleware':
+                    return symbolAt(usage.kind, usage.name, usage.character, usage.name.length);
+                case 'call': {
+                    const storeId = await this.storeService.findStoreIdByHook(usage.name);
+
+                    return storeId
+                        ? symbolAt('store', storeId, usage.character, usage.name.length)
+                        : symbolAt('composable', usage.name, usage.character, usage.name.length);
+                }
+                case 'dynamicComponent': {
+                    // Seules les chaînes qui nomment réellement un composant sont des symboles
+                    const componentName = await this.componentService.resolveTagComponentName(usage.name);
+
+                    if ((await this.componentService.findComponentFiles(componentName)).length > 0) {
+                        return symbolAt('component', componentName, usage.character, usage.name.length);
+                    }
+
+                    break;
+                }
+            }
+        }
+
+        // Balise fermante (`</user-card>`), que l'index ne relève pas
+        const tagRange = document.getWordRangeAtPosition(position, /[\w-]+/);
+
+        if (tagRange && document.languageId === 'vue') {
+            const before = document.lineAt(position.line).text.slice(0, tagRange.start.character);
+            const tag = document.getText(tagRange);
+
+            if (before.endsWith('</') && (/^[A-Z]/.test(tag) || tag.includes('-'))) {
+                return symbolAt('component', await this.componentService.resolveTagComponentName(tag), tagRange.start.character, tag.length);
+            }
+        }
+
+        // Autres fonctions auto-importées (composables sans préfixe `use`, utilitaires)
+        const wordRange = document.getWordRangeAtPosition(position, /[\w$]+/);
+
+        if (!wordRange) {
+            return null;
+        }
+
+        const word = document.getText(wordRange);
+
+        for (const kind of ['composable', 'util'] as const) {
+            if ((await this.findDefinitions(kind, word)).length > 0) {
+                return symbolAt(kind, word, wordRange.start.character, word.length);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Retourne les définitions d'un symbole, de la plus prioritaire (layer du projet) à la moins prioritaire
+     */
+    public async findDefinitions(kind: NuxtSymbolKind, name: string): Promise<NuxtSymbolDefinition[]> {
+        if (kind === 'component') {
+            const filePaths = await this.componentService.findComponentFiles(name);
+
+            return this.sortByLayerPriority(filePaths.map(filePath => ({ kind, name, filePath, line: 0, character: 0 })));
+        }
+
+        let indexed = this.projectIndex.getDefinitions(kind, name);
+
+        // Le fichier déclaré par Nuxt dans `.nuxt` fait foi pour les fonctions auto-importées
+        const generated = (kind === 'composable' || kind === 'util') ? this.importMap.findImport(name) : undefined;
+
+        if (generated && indexed.some(({ file }) => file.path === generated.filePath)) {
+            indexed = indexed.filter(({ file }) => file.path === generated.filePath);
+        }
+
+        const definitions: NuxtSymbolDefinition[] = [];
+
+        for (const { file, definition } of indexed) {
+            let character = definition.character;
+
+            // La définition pointe sur `export` : se placer sur le nom exporté
+            if (kind === 'composable' || kind === 'util') {
+                const content = await this.projectIndex.readContent(file.path);
+                const lineText = content?.split('\n')[definition.line] ?? '';
+                const nameIndex = lineText.indexOf(name, definition.character);
+
+                character = nameIndex === -1 ? character : nameIndex;
+            }
+
+            definitions.push({ kind, name, filePath: file.path, line: definition.line, character });
+        }
+
+        // Fonction d'un module (`useFetch`, VueUse...) : le fichier déclaré n'est pas indexé
+        if (generated && definitions.length === 0 && path.isAbsolute(generated.filePath) && fs.existsSync(generated.filePath)) {
+            const content = await this.projectIndex.readContent(generated.filePath) ?? '';
+            const exportMatch = new RegExp(`\\b(?:function|const|let|var|class)\\s+(${generated.exportName.replace(/\$/g, '\\$')})\\b`).exec(content);
+            const position = exportMatch
+                ? TextUtils.indexToPosition(content, exportMatch.index + exportMatch[0].length - generated.exportName.length)
+                : { line: 0, character: 0 };
+
+            definitions.push({ kind, name, filePath: generated.filePath, ...position });
+        }
+
+        return this.sortByLayerPriority(definitions);
+    }
+
+    /**
+     * Noms auto-importés (composants, composables, utils, stores) définis par plusieurs fichiers d'un même layer,
+     * une collision par fichier concerné. Entre layers, c'est une surcharge voulue et non une collision.
+     */
+    public async findNameCollisions(): Promise<NuxtNameCollision[]> {
+        const collisions: NuxtNameCollision[] = [];
+
+        for (const component of await this.componentService.getAutoImportedComponents()) {
+            if (!component.collisions?.length) {
+                continue;
+            }
+
+            const toDefinition = (componentPath: string): NuxtSymbolDefinition =>
+                ({ kind: 'component', name: component.name, filePath: componentPath, line: 0, character: 0 });
+
+            collisions.push({ definition: toDefinition(component.path), others: component.collisions.map(toDefinition) });
+        }
+
+        // Composables et utils partagent l'espace de noms des auto-imports ; les types ne sont pas importés
+        const isValueDefinition = (definition: IndexedDefinition) =>
+            ((definition.kind === 'composable' || definition.kind === 'util') && definition.exportType !== 'interface' && definition.exportType !== 'type') ||
+            definition.kind === 'store';
+
+        const definitionsByName = new Map<string, NuxtSymbolDefinition[]>();
+
+        for (const kind of ['composable', 'util', 'store'] as NuxtSymbolKind[]) {
+            for (const { file, definition } of this.projectIndex.getDefinitions(kind)) {
+                if (!isValueDefinition(definition)) {
+                    continue;
+                }
+
+                const layer = LayerResolver.findLayer(this.layers, file.path);
+                const key = `${kind === 'store' ? 'store' : 'import'}:${layer?.rootDir ?? ''}:${definition.name}`;
+
+                definitionsByName.set(key, [...(definitionsByName.get(key) || []), {
+                    kind,
+                    name: definition.name,
+                    filePath: file.path,
+                    line: definition.line,
+                    character: definition.character
+                }]);
+            }
+        }
+
+        for (const definitions of definitionsByName.values()) {
+            // Un fichier ne compte qu'une fois, même s'il déclare le nom comme composable et comme util
+            const perFile = definitions.filter((definition, index) => definitions.findIndex(other => other.filePath === definition.filePath) === index);
+
+            if (perFile.length < 2) {
+                continue;
+            }
+
+            for (const definition of perFile) {
+                collisions.push({ definition, others: perFile.filter(other => other !== definition) });
+            }
+        }
+
+        return collisions;
+    }
+
+    private sortByLayerPriority(definitions: NuxtSymbolDefinition[]): NuxtSymbolDefinition[] {
+        const priorityOf = (filePath: string) => LayerResolver.findLayer(this.layers, filePath)?.priority ?? this.layers.length;
+
+        return definitions.sort((a, b) => priorityOf(a.filePath) - priorityOf(b.filePath));
+    }
+
+    public async updateAutoImportCacheIfNeeded(fileInfo: NuxtFileInfo): Promise<void> {
+        const now = Date.now();
+
+        if (now - this.lastCacheUpdate < this.cacheUpdateInterval) {
+            return;
+        }
+
+        if (fileInfo.isComponent) {
+            for (const dir of this.componentsDirs) {
+                await this.componentService.scanComponentsDirectory(dir.path);
+            }
+        }
+
+        if (fileInfo.isComposable) {
+            const composablesDirs = this.layers.flatMap(layer => layer.dirs.composables);
+
+            for (const dir of composablesDirs) {
+                await this.composableService.scanComposablesDirectory(dir);
+            }
+        }
+
+        if (fileInfo.isStore) {
+            const storeDirs = this.layers.flatMap(layer => layer.dirs.stores);
+
+            for (const dir of storeDirs) {
+                await this.storeService.scanStoresDirectory(dir);
+            }
+        }
+
+        if (fileInfo.isUtil) {
+            await this.utilsService.scanUtilsDirectories();
+        }
+
+        this.lastCacheUpdate = now;
+    }
+
+    public dispose(): void {
+        this.documentUsagesCache.clear();
+        this.indexSubscription.dispose();
+        this.componentService.dispose();
+        this.composableService.dispose();
+        this.pluginService.dispose();
+        this.middlewareService.dispose();
+        this.layoutService.dispose();
+        this.storeService.dispose();
+        this.projectIndex.dispose();
+        this.importMap.dispose();
+    }
+}
@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { NuxtProjectContext } from './NuxtProjectContext';
+import { LayerResolver } from '../config/LayerResolver';
+import { NuxtConfigLoader } from '../config/NuxtConfigLoader';
+
+/**
+ * Application Nuxt découverte dans l'espace de travail
+ */
+interface DiscoveredApp {
+    rootDir: string;
+    layerRoots: string[];
+}
+
+/**
+ * Discovers the Nuxt apps of the workspace (multi-root, monorepos) and hands out
+ * the context owning each document. Les contextes sont créés à la demande.
+ */
+export class ProjectManager implements vscode.Disposable {
+    private contexts: Map<string, NuxtProjectContext> = new Map();
+    private apps: Promise<DiscoveredApp[]> | null = null;
+    private configWatcher: vscode.FileSystemWatcher | undefined;
+    private workspaceSubscription: vscode.Disposable | undefined;
+
+    private static readonly configGlob = `**/{${NuxtConfigLoader.configFileNames.join(',')}}`;
+    private static readonly excludeGlob = '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**}';
+
+    /**
+     * @param storagePath dossier de stockage de l'extension, où les index des projets sont persistés
+     */
+    constructor(private storagePath?: string) {
+        // Un nuxt.config ajouté, supprimé ou modifié (`extends`) peut changer la liste des applications
+        this.configWatcher = vscode.workspace.createFileSystemWatcher(ProjectManager.configGlob);
+
+        this.configWatcher.onDidCreate(() => this.invalidate());
+        this.configWatcher.onDidChange(() => this.invalidate());
+        this.configWatcher.onDidDelete(() => this.invalidate());
+
+        this.workspaceSubscription = vscode.workspace.onDidChangeWorkspaceFolders(() => this.invalidate());
+    }
+
+    /**
+     * Retourne le contexte de l'application à laquelle appartient un document
+     */
+    async getContext(uri: vscode.Uri): Promise<NuxtProjectContext | null> {
+        const root = await this.findProjectRoot(uri.fsPath);
+
+        if (!root) {
+            return null;
+        }
+
+        return this.getOrCreateContext(root);
+    }
+
+    /**
+     * Retourne les contextes de toutes les applications de l'espace de travail, en les créant au besoin
+     */
+    async getAllContexts(): Promise<NuxtProjectContext[]> {
+        const apps = await this.getApps();
+
+        return apps.map(app => this.getOrCreateContext(app.rootDir));
+    }
+
+    private getOrCreateContext(root: string): NuxtProjectContext {
+        let context = this.contexts.get(root);
+
+        if (!context) {
+            context = new NuxtProjectContext(root, this.storagePath);
+
+            this.contexts.set(root, context);
+        }
+
+        return context;
+    }
+
+    /**
+     * Retourne les contextes déjà créés
+     */
+    getContexts(): NuxtProjectContext[] {
+        return [...this.contexts.values()];
+    }
+
+    private async findProjectRoot(fsPath: string): Promise<string | null> {
+        const apps = await this.getApps();
+
+        // L'application la plus profonde qui contient le fichier
+        const owner = apps
+            .filter(app => fsPath.startsWith(app.rootDir + path.sep))
+            .sort((a, b) => b.rootDir.length - a.rootDir.length)[0];
+
+        if (owner) {
+            return owner.rootDir;
+        }
+
+        // Un fichier d'un layer partagé appartient à la première application qui l'étend
+        const extender = apps.find(app => app.layerRoots.some(layerRoot => fsPath.startsWith(layerRoot + path.sep)));
+
+        if (extender) {
+            return extender.rootDir;
+        }
+
+        // Fichier ouvert hors des dossiers de l'espace de travail
+        return this.findNuxtProjectRoot(fsPath);
+    }
+
+    /**
+     * Liste les applications : les dossiers contenant un nuxt.config qui ne sont pas un layer d'une autre application
+     */
+    private getApps(): Promise<DiscoveredApp[]> {
+        if (!this.apps) {
+            this.apps = this.discoverApps();
+        }
+
+        return this.apps;
+    }
+
+    private async discoverApps(): Promise<DiscoveredApp[]> {
+        const configUris = await vscode.workspace.findFiles(ProjectManager.configGlob, ProjectManager.excludeGlob);
+
+        const roots = [...new Set(configUris.map(uri => path.dirname(uri.fsPath)))].sort();
+
+        const candidates: DiscoveredApp[] = roots.map(rootDir => ({
+            rootDir,
+            layerRoots: LayerResolver.resolve(rootDir).slice(1).map(layer => layer.rootDir)
+        }));
+
+        const extendedRoots = new Set(candidates.flatMap(app => app.layerRoots));
+
+        return candidates.filter(app => !extendedRoots.has(app.rootDir));
+    }
+
+    /**
+     * Oublie les applications découvertes et libère les contextes qui n'en sont plus
+     */
+    private invalidate(): void {
+        const previous = this.apps;
+
+        this.apps = null;
+
+        if (!previous) {
+            return;
+        }
+
+        this.getApps().then(apps => {
+            for (const [root, context] of this.contexts) {
+                const inWorkspace = !!vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root));
+
+                // Les contextes des fichiers ouverts hors de l'espace de travail sont conservés
+                if (inWorkspace && !apps.some(app => app.rootDir === root)) {
+                    context.dispose();
+
+                    this.contexts.delete(root);
+                }
+            }
+        }).catch(error => console.error('Error discovering Nuxt projects:', error));
+    }
+
+    private findNuxtProjectRoot(filePath: string): string | null {
+        let currentDir = path.dirname(filePath);
+        const root = path.parse(currentDir).root;
+        let bestCandidate: string | null = null;
+
+        while (currentDir !== root) {
+            const hasNuxtConfig = !!NuxtConfigLoader.findConfigFile(currentDir);
+            const hasPackageJson = fs.existsSync(path.join(currentDir, 'package.json'));
+            const hasGit = fs.existsSync(path.join(currentDir, '.git'));
+            const hasPnpmWorkspace = fs.existsSync(path.join(currentDir, 'pnpm-workspace.yaml'));
+
+            if (hasNuxtConfig) {
+                // On marque ce dossier comme un candidat potentiel
+                if (hasPackageJson || hasGit || hasPnpmWorkspace) {
+                    return currentDir; // Racine trouvée avec certitude
+                }
+
+                // Sinon on garde en mémoire comme fallback
+                bestCandidate = currentDir;
+            }
+
+            currentDir = path.dirname(currentDir);
+        }
+
+        // Si aucun dossier avec git/package.json mais un layer avec nuxt.config trouvé
+        return bestCandidate;
+    }
+
+    public dispose(): void {
+        this.contexts.forEach(context => context.dispose());
+        this.contexts.clear();
+
+        this.configWatcher?.dispose();
+        this.workspaceSubscription?.dispose();
+    }
+}
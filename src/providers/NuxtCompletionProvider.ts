@@ -0,0 +1,256 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProjectManager } from '../project/ProjectManager';
+import { NuxtProjectContext } from '../project/NuxtProjectContext';
+import { PathUtils } from '../utils/pathUtils';
+import { NamingUtils } from '../utils/namingUtils';
+import type { ComponentMeta } from '../types';
+
+/**
+ * Balise de composant proposée ; sa documentation est calculée à la sélection par `resolveCompletionItem`
+ */
+class ComponentCompletionItem extends vscode.CompletionItem {
+    constructor(label: string, readonly componentName: string, readonly context: NuxtProjectContext) {
+        super(label, vscode.CompletionItemKind.Class);
+    }
+}
+
+/**
+ * Completion of auto-imported components in Vue templates.
+ * `<User` propose `UserCard`, `user-card` et leurs variantes `Lazy`, avec le fichier et les props du composant ;
+ * dans une balise de composant, ses props, ses événements et les valeurs des props typées par des littéraux.
+ */
+export class NuxtCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private projectManager: ProjectManager) {
+    }
+
+    async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[] | undefined> {
+        if (!this.isInTemplate(document, position)) {
+            return undefined;
+        }
+
+        const context = await this.projectManager.getContext(document.uri);
+
+        if (!context) {
+            return undefined;
+        }
+
+        await context.ready();
+
+        try {
+            const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+            const tagMatch = linePrefix.match(/<([A-Za-z][\w-]*)?$/);
+
+            if (tagMatch) {
+                const typed = tagMatch[1] || '';
+
+                return this.provideTagCompletions(context, new vscode.Range(position.translate(0, -typed.length), position));
+            }
+
+            // Balise ouvrante en cours : `<UserCard size="sm" |`
+            const textBefore = document.getText(new vscode.Range(new vscode.Position(Math.max(0, position.line - 50), 0), position));
+            const openTagMatch = textBefore.match(/<([A-Za-z][\w-]*)(\s[^<>]*)?$/);
+
+            if (!openTagMatch || !openTagMatch[2]) {
+                return undefined;
+            }
+
+            const meta = await this.getTagMeta(context, openTagMatch[1]);
+
+            if (!meta) {
+                return undefined;
+            }
+
+            const attributes = openTagMatch[2];
+            const valueMatch = attributes.match(/(?:^|\s)([:@]?[\w:.-]+)\s*=\s*"([^"]*)$/);
+
+            if (valueMatch) {
+                return this.provideValueCompletions(meta, valueMatch[1], valueMatch[2], position);
+            }
+
+            const typedAttribute = attributes.match(/[:@\w.-]*$/)![0];
+
+            return this.provideAttributeCompletions(meta, attributes, new vscode.Range(position.translate(0, -typedAttribute.length), position));
+        } catch (error) {
+            console.error('Error providing completions:', error);
+
+            return undefined;
+        }
+    }
+
+    /**
+     * Un item par forme de nom : PascalCase, kebab-case et variantes `Lazy`
+     */
+    private async provideTagCompletions(context: NuxtProjectContext, range: vscode.Range): Promise<vscode.CompletionItem[]> {
+        const items: vscode.CompletionItem[] = [];
+
+        for (const componentName of (await context.componentService.getComponentFiles()).keys()) {
+            const kebab = PathUtils.pascalToKebabCase(componentName);
+
+            const forms: [string, boolean][] = [
+                [componentName, false],
+                [kebab, false],
+                [`Lazy${componentName}`, true],
+                [`lazy-${kebab}`, true]
+            ];
+
+            for (const [label, isLazy] of forms) {
+                const item = new ComponentCompletionItem(label, componentName, context);
+
+                item.detail = isLazy ? `${componentName} (lazy loaded)` : componentName;
+                item.range = range;
+                // Les formes directes avant les variantes `Lazy`
+                item.sortText = `${isLazy ? 1 : 0}${label}`;
+
+                items.push(item);
+            }
+        }
+
+        return items;
+    }
+
+    /**
+     * Fichier et props du composant, calculés seulement pour l'item sélectionné
+     */
+    async resolveCompletionItem(item: vscode.CompletionItem): Promise<vscode.CompletionItem> {
+        if (!(item instanceof ComponentCompletionItem)) {
+            return item;
+        }
+
+        try {
+            const [definition] = await item.context.findDefinitions('component', item.componentName);
+
+            if (definition) {
+                const meta = await item.context.componentService.getComponentMeta(definition.filePath);
+
+                item.documentation = this.getComponentDocumentation(item.context, item.componentName, definition.filePath, meta);
+            }
+        } catch (error) {
+            console.error('Error resolving completion item:', error);
+        }
+
+        return item;
+    }
+
+    /**
+     * `:prop-name=""` et `prop-name=""` pour chaque prop, `@event=""` pour chaque événement, hors attributs déjà présents
+     */
+    private provideAttributeCompletions(meta: ComponentMeta, attributes: string, range: vscode.Range): vscode.CompletionItem[] {
+        const present = new Set([...attributes.matchAll(/(?:^|\s)(?:v-bind:|v-on:|[:@])?([\w.-]+)(?=[\s=]|$)/g)]
+            .map(match => NamingUtils.camelize(match[1].split('.')[0])));
+
+        const items: vscode.CompletionItem[] = [];
+
+        for (const prop of meta.props) {
+            if (present.has(NamingUtils.camelize(prop.name))) {
+                continue;
+            }
+
+            const kebab = PathUtils.pascalToKebabCase(prop.name);
+            const detail = `${prop.type ?? 'any'}${prop.required ? ' (required)' : ''}${prop.default !== undefined ? ` = ${prop.default}` : ''}`;
+
+            for (const label of [`:${kebab}`, kebab]) {
+                const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.Property);
+
+                item.detail = detail;
+                item.insertText = new vscode.SnippetString(`${label}="$1"`);
+                item.range = range;
+                // Props requises d'abord
+                item.sortText = `${prop.required ? 0 : 1}${kebab}${label.startsWith(':') ? 0 : 1}`;
+                // Propose les valeurs dès l'ouverture des guillemets
+                item.command = prop.values ? { title: 'Suggest', command: 'editor.action.triggerSuggest' } : undefined;
+
+                items.push(item);
+            }
+        }
+
+        for (const event of meta.emits) {
+            if (present.has(NamingUtils.camelize(event))) {
+                continue;
+            }
+
+            const item = new vscode.CompletionItem(`@${event}`, vscode.CompletionItemKind.Event);
+
+            item.detail = 'emit';
+            item.insertText = new vscode.SnippetString(`@${event}="$1"`);
+            item.range = range;
+            item.sortText = `2${event}`;
+
+            items.push(item);
+        }
+
+        return items;
+    }
+
+    /**
+     * Valeurs d'une prop typée par une union de littéraux : `size="sm"` ou `:size="'sm'"`
+     */
+    private provideValueCompletions(meta: ComponentMeta, attribute: string, typed: string, position: vscode.Position): vscode.CompletionItem[] | undefined {
+        const isBound = attribute.startsWith(':') || attribute.startsWith('v-bind:');
+        const propName = NamingUtils.camelize(attribute.replace(/^(v-bind:|:)/, '').split('.')[0]);
+        const prop = meta.props.find(candidate => NamingUtils.camelize(candidate.name) === propName);
+
+        if (!prop?.values) {
+            return undefined;
+        }
+
+        const range = new vscode.Range(position.translate(0, -typed.length), position);
+
+        return prop.values
+            // Un attribut statique ne peut recevoir qu'une chaîne
+            .filter(value => isBound || value.startsWith('\''))
+            .map((value, index) => {
+                const label = isBound ? value : value.slice(1, -1);
+                const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.EnumMember);
+
+                item.detail = prop.type;
+                item.range = range;
+                item.sortText = String(index).padStart(3, '0');
+
+                return item;
+            });
+    }
+
+    /**
+     * Métadonnées du composant d'une balise, `undefined` si ce n'est pas un composant du projet
+     */
+    private async getTagMeta(context: NuxtProjectContext, tag: string): Promise<ComponentMeta | undefined> {
+        if (!/^[A-Z]/.test(tag) && !tag.includes('-')) {
+            return undefined;
+        }
+
+        const componentName = await context.componentService.resolveTagComponentName(tag);
+        const [definition] = await context.findDefinitions('component', componentName);
+
+        return definition ? context.componentService.getComponentMeta(definition.filePath) : undefined;
+    }
+
+    private getComponentDocumentation(context: NuxtProjectContext, componentName: string, filePath: string, meta: ComponentMeta): vscode.MarkdownString {
+        const markdown = new vscode.MarkdownString();
+
+        markdown.appendMarkdown(`**🧩 ${componentName}**\n\n`);
+        markdown.appendMarkdown(`[${path.relative(context.rootDir, filePath)}](${vscode.Uri.file(filePath)})\n\n`);
+
+        if (meta.props.length > 0) {
+            markdown.appendMarkdown('**Props**\n\n');
+
+            for (const prop of meta.props) {
+                markdown.appendMarkdown(`- \`${prop.name}${prop.required ? '' : '?'}${prop.type ? `: ${prop.type}` : ''}\`\n`);
+            }
+        }
+
+        return markdown;
+    }
+
+    /**
+     * Vrai si la position est dans le bloc `<template>` du fichier
+     */
+    private isInTemplate(document: vscode.TextDocument, position: vscode.Position): boolean {
+        const text = document.getText();
+        const offset = document.offsetAt(position);
+        const templateStart = text.indexOf('<template');
+        const templateEnd = text.lastIndexOf('</template>');
+
+        return templateStart !== -1 && offset > templateStart && (templateEnd === -1 || offset <= templateEnd);
+    }
+}
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { ProjectManager } from '../project/ProjectManager';
+
+/**
+ * Go-to-definition for auto-imported components, composables and utils.
+ * `<UserCard>`, `<lazy-user-card>` ou `useCart()` mènent au fichier qui les définit, sans import explicite.
+ */
+export class NuxtDefinitionProvider implements vscode.DefinitionProvider {
+    constructor(private projectManager: ProjectManager) {
+    }
+
+    async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.LocationLink[] | undefined> {
+        const context = await this.projectManager.getContext(document.uri);
+
+        if (!context) {
+            return undefined;
+        }
+
+        await context.ready();
+
+        try {
+            const symbol = await context.getSymbolAt(document, position);
+
+            if (!symbol) {
+                return undefined;
+            }
+
+            const definitions = await context.findDefinitions(symbol.kind, symbol.name);
+
+            // Déjà sur la définition : TypeScript s'en charge
+            if (definitions.some(definition => definition.filePath === document.uri.fsPath && definition.line === position.line)) {
+                return undefined;
+            }
+
+            const originSelectionRange = new vscode.Range(
+                symbol.line,
+                symbol.character,
+                symbol.line,
+                symbol.character + symbol.length
+            );
+
+            return definitions.map(definition => {
+                const target = new vscode.Position(definition.line, definition.character);
+
+                return {
+                    originSelectionRange,
+                    targetUri: vscode.Uri.file(definition.filePath),
+                    targetRange: new vscode.Range(target, target)
+                };
+            });
+        } catch (error) {
+            console.error('Error providing definition:', error);
+
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProjectManager } from '../project/ProjectManager';
+import { NuxtProjectContext } from '../project/NuxtProjectContext';
+import type { NuxtNameCollision } from '../types';
+
+/**
+ * Publishes the diagnostics computed by the services for the open documents.
+ * Les documents sont réanalysés après chaque modification (avec un délai) et à chaque enregistrement ;
+ * les collisions de noms sont calculées pour tout l'index des applications déjà ouvertes et publiées sur chaque fichier concerné, ouvert ou non.
+ */
+export class NuxtDiagnostics implements vscode.Disposable {
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    private collisionCollection: vscode.DiagnosticCollection;
+    private subscriptions: vscode.Disposable[] = [];
+    private pendingUpdates: Map<string, ReturnType<typeof setTimeout>> = new Map();
+    private pendingCollisionUpdates: Map<NuxtProjectContext, ReturnType<typeof setTimeout>> = new Map();
+    private indexSubscriptions: Map<NuxtProjectContext, vscode.Disposable> = new Map();
+    private collisionsByContext: Map<NuxtProjectContext, Map<string, vscode.Diagnostic[]>> = new Map();
+
+    private static readonly updateDelay = 500;
+    private static readonly languageIds = ['vue', 'typescript', 'javascript'];
+
+    constructor(private projectManager: ProjectManager) {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('nuxt-intellisense');
+        this.collisionCollection = vscode.languages.createDiagnosticCollection('nuxt-intellisense-collisions');
+
+        this.subscriptions.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.scheduleUpdate(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleUpdate(event.document)),
+            // Un composant enregistré peut changer les diagnostics des fichiers qui l'utilisent
+            vscode.workspace.onDidSaveTextDocument(() => vscode.workspace.textDocuments.forEach(document => this.scheduleUpdate(document))),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.cancelUpdate(document);
+                this.diagnosticCollection.delete(document.uri);
+            })
+        );
+
+        vscode.workspace.textDocuments.forEach(document => this.scheduleUpdate(document));
+    }
+
+    private scheduleUpdate(document: vscode.TextDocument): void {
+        if (document.uri.scheme !== 'file' || !NuxtDiagnostics.languageIds.includes(document.languageId)) {
+            return;
+        }
+
+        this.cancelUpdate(document);
+
+        this.pendingUpdates.set(document.uri.toString(), setTimeout(() => {
+            this.pendingUpdates.delete(document.uri.toString());
+
+            this.update(document).catch(error => console.error('Error providing diagnostics:', error));
+        }, NuxtDiagnostics.updateDelay));
+    }
+
+    private cancelUpdate(document: vscode.TextDocument): void {
+        const pending = this.pendingUpdates.get(document.uri.toString());
+
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingUpdates.delete(document.uri.toString());
+        }
+    }
+
+    private async update(document: vscode.TextDocument): Promise<void> {
+        const context = await this.projectManager.getContext(document.uri);
+
+        if (!context) {
+            return;
+        }
+
+        await context.ready();
+
+        this.watchCollisions(context);
+
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        if (document.languageId === 'vue') {
+            diagnostics.push(...await context.componentService.provideDiagnostics(document));
+        }
+
+        // Le document a pu être fermé pendant l'analyse
+        if (document.isClosed) {
+            return;
+        }
+
+        this.diagnosticCollection.set(document.uri, diagnostics);
+    }
+
+    /**
+     * Calcule les collisions d'une application dès que son contexte existe, puis après chaque mise à jour de son index
+     */
+    private watchCollisions(context: NuxtProjectContext): void {
+        if (this.indexSubscriptions.has(context)) {
+            return;
+        }
+
+        // Un fichier ajouté, modifié ou supprimé dans l'index peut créer ou résoudre une collision
+        this.indexSubscriptions.set(context, context.projectIndex.onDidUpdate(() => this.scheduleCollisionsUpdate(context)));
+
+        this.scheduleCollisionsUpdate(context);
+    }
+
+    private scheduleCollisionsUpdate(context: NuxtProjectContext): void {
+        const pending = this.pendingCollisionUpdates.get(context);
+
+        if (pending) {
+            clearTimeout(pending);
+        }
+
+        this.pendingCollisionUpdates.set(context, setTimeout(() => {
+            this.pendingCollisionUpdates.delete(context);
+
+            this.updateCollisions(context).catch(error => console.error('Error providing collision diagnostics:', error));
+        }, NuxtDiagnostics.updateDelay));
+    }
+
+    /**
+     * Recalcule les collisions de noms d'une application, puis republie celles de toutes les applications
+     */
+    private async updateCollisions(context: NuxtProjectContext): Promise<void> {
+        if (!this.projectManager.getContexts().includes(context)) {
+            this.publishCollisions();
+
+            return;
+        }
+
+        await context.ready();
+
+        const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+
+        for (const collision of await context.findNameCollisions()) {
+            const diagnostic = await this.createCollisionDiagnostic(context, collision);
+
+            diagnosticsByFile.set(collision.definition.filePath, [...(diagnosticsByFile.get(collision.definition.filePath) || []), diagnostic]);
+        }
+
+        this.collisionsByContext.set(context, diagnosticsByFile);
+
+        this.publishCollisions();
+    }
+
+    /**
+     * Publie les collisions calculées pour les contextes encore ouverts, sur chacun des fichiers qui définissent le nom
+     */
+    private publishCollisions(): void {
+        const contexts = this.projectManager.getContexts();
+
+        // Les contextes libérés par le ProjectManager (application supprimée) ne publient plus rien
+        for (const context of [...this.collisionsByContext.keys(), ...this.indexSubscriptions.keys()]) {
+            if (!contexts.includes(context)) {
+                this.forgetContext(context);
+            }
+        }
+
+        const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+        // Un layer partagé par plusieurs applications ne signale chaque collision qu'une fois
+        const published = new Set<string>();
+
+        for (const contextDiagnostics of this.collisionsByContext.values()) {
+            contextDiagnostics.forEach((diagnostics, filePath) => {
+                for (const diagnostic of diagnostics) {
+                    const key = `${filePath}:${diagnostic.range.start.line}:${diagnostic.message}`;
+
+                    if (published.has(key)) {
+                        continue;
+                    }
+
+                    published.add(key);
+
+                    diagnosticsByFile.set(filePath, [...(diagnosticsByFile.get(filePath) || []), diagnostic]);
+                }
+            });
+        }
+
+        this.collisionCollection.clear();
+
+        diagnosticsByFile.forEach((diagnostics, filePath) => this.collisionCollection.set(vscode.Uri.file(filePath), diagnostics));
+    }
+
+    private forgetContext(context: NuxtProjectContext): void {
+        this.indexSubscriptions.get(context)?.dispose();
+        this.indexSubscriptions.delete(context);
+
+        const pending = this.pendingCollisionUpdates.get(context);
+
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingCollisionUpdates.delete(context);
+        }
+
+        this.collisionsByContext.delete(context);
+    }
+
+    /**
+     * Avertissement sur le nom auto-importé défini aussi par un autre fichier, avec un lien vers chaque autre définition
+     */
+    private async createCollisionDiagnostic(context: NuxtProjectContext, { definition, others }: NuxtNameCollision): Promise<vscode.Diagnostic> {
+        const lines = (await context.projectIndex.readContent(definition.filePath) ?? '').split(/\r?\n/);
+        const lineNumber = Math.min(definition.line, lines.length - 1);
+        const nameIndex = lines[lineNumber].indexOf(definition.name, definition.character);
+
+        const range = nameIndex === -1
+            ? new vscode.Range(lineNumber, 0, lineNumber, lines[lineNumber].length)
+            : new vscode.Range(lineNumber, nameIndex, lineNumber, nameIndex + definition.name.length);
+
+        const otherPaths = others.map(other => path.relative(context.rootDir, other.filePath)).join(', ');
+
+        const diagnostic = new vscode.Diagnostic(
+            range,
+            `${definition.name} is also defined by ${otherPaths}: Nuxt auto-imports only one of them`,
+            vscode.DiagnosticSeverity.Warning
+        );
+
+        diagnostic.source = 'Nuxt Intellisense';
+        diagnostic.relatedInformation = others.map(other => new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(vscode.Uri.file(other.filePath), new vscode.Position(other.line, other.character)),
+            `Other definition of ${definition.name}`
+        ));
+
+        return diagnostic;
+    }
+
+    public dispose(): void {
+        this.pendingUpdates.forEach(pending => clearTimeout(pending));
+        this.pendingUpdates.clear();
+
+        [...this.indexSubscriptions.keys()].forEach(context => this.forgetContext(context));
+
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.diagnosticCollection.dispose();
+        this.collisionCollection.dispose();
+    }
+}
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProjectManager } from '../project/ProjectManager';
+import { NuxtProjectContext } from '../project/NuxtProjectContext';
+import type { ComposableMember, NuxtSymbolAtPosition } from '../types';
+
+/**
+ * Hover cards for auto-imported components: where they come from and what they accept.
+ * Sur un appel `useX()` ou un membre déstructuré (`const { items } = useCart()`), la signature du composable et ce qu'il retourne.
+ */
+export class NuxtHoverProvider implements vscode.HoverProvider {
+    constructor(private projectManager: ProjectManager) {
+    }
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const context = await this.projectManager.getContext(document.uri);
+
+        if (!context) {
+            return undefined;
+        }
+
+        await context.ready();
+
+        try {
+            // Membre déstructuré : `const { items } = useCart()`
+            const member = this.findDestructuredMember(document, position);
+
+            if (member) {
+                const markdown = await this.getComposableMarkdown(context, document, member.composableName, member.name);
+
+                return markdown && new vscode.Hover(markdown, member.range);
+            }
+
+            const symbol = await context.getSymbolAt(document, position);
+
+            if (!symbol || (symbol.kind !== 'component' && symbol.kind !== 'composable')) {
+                return undefined;
+            }
+
+            const markdown = symbol.kind === 'component'
+                ? await this.getComponentMarkdown(context, symbol)
+                : await this.getComposableMarkdown(context, document, symbol.name);
+
+            if (!markdown) {
+                return undefined;
+            }
+
+            return new vscode.Hover(markdown, new vscode.Range(
+                symbol.line,
+                symbol.character,
+                symbol.line,
+                symbol.character + symbol.length
+            ));
+        } catch (error) {
+            console.error('Error providing hover:', error);
+
+            return undefined;
+        }
+    }
+
+    private async getComponentMarkdown(context: NuxtProjectContext, symbol: NuxtSymbolAtPosition): Promise<vscode.MarkdownString | undefined> {
+        // La définition du layer le plus prioritaire est celle que Nuxt utilise
+        const [definition] = await context.findDefinitions('component', symbol.name);
+
+        if (!definition) {
+            return undefined;
+        }
+
+        const meta = await context.componentService.getComponentMeta(definition.filePath);
+        const references = await context.componentService.findComponentReferences(symbol.name);
+
+        const markdown = new vscode.MarkdownString();
+
+        markdown.appendMarkdown(`**🧩 ${symbol.name}**\n\n`);
+        markdown.appendMarkdown(`[${path.relative(context.rootDir, definition.filePath)}](${vscode.Uri.file(definition.filePath)})\n\n`);
+
+        if (meta.props.length > 0) {
+            markdown.appendMarkdown('**Props**\n\n');
+
+            for (const prop of meta.props) {
+                const signature = `${prop.name}${prop.required ? '' : '?'}${prop.type ? `: ${prop.type}` : ''}`;
+                const defaultValue = prop.default !== undefined ? ` = \`${prop.default}\`` : '';
+
+                markdown.appendMarkdown(`- \`${signature}\`${defaultValue}${prop.required ? ' *(required)*' : ''}\n`);
+            }
+
+            markdown.appendMarkdown('\n');
+        }
+
+        if (meta.emits.length > 0) {
+            markdown.appendMarkdown(`**Emits** ${meta.emits.map(name => `\`${name}\``).join(', ')}\n\n`);
+        }
+
+        if (meta.slots.length > 0) {
+            markdown.appendMarkdown(`**Slots** ${meta.slots.map(name => `\`${name}\``).join(', ')}\n\n`);
+        }
+
+        if (meta.exposed.length > 0) {
+            markdown.appendMarkdown(`**Exposes** ${meta.exposed.map(name => `\`${name}\``).join(', ')}\n\n`);
+        }
+
+        markdown.appendMarkdown(`🔄 ${context.componentService.formatReferenceCount(references, symbol.name)}`);
+
+        return markdown;
+    }
+
+    private async getComposableMarkdown(
+        context: NuxtProjectContext,
+        document: vscode.TextDocument,
+        composableName: string,
+        memberName?: string
+    ): Promise<vscode.MarkdownString | undefined> {
+        const [definition] = await context.findDefinitions('composable', composableName);
+
+        // Dans le fichier du composable, le survol de TypeScript suffit
+        if (!definition || definition.filePath === document.uri.fsPath) {
+            return undefined;
+        }
+
+        const summary = await context.composableService.getComposableSummary(definition.filePath, composableName);
+        const member = summary?.members.find(candidate => candidate.name === memberName);
+
+        if (!summary || (memberName && !member)) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+
+        if (member) {
+            markdown.appendMarkdown(`**${member.name}** ${this.formatMember(member)} — returned by \`${composableName}()\`\n\n`);
+        } else {
+            markdown.appendMarkdown(`**🔄 ${composableName}**\n\n`);
+        }
+
+        markdown.appendCodeblock(`function ${summary.signature}`, 'typescript');
+        markdown.appendMarkdown(`[${path.relative(context.rootDir, definition.filePath)}](${vscode.Uri.file(definition.filePath)})\n\n`);
+
+        if (summary.members.length > 0) {
+            markdown.appendMarkdown('**Returns**\n\n');
+
+            for (const returned of summary.members) {
+                markdown.appendMarkdown(`- \`${returned.name}\` ${this.formatMember(returned)}\n`);
+            }
+        }
+
+        return markdown;
+    }
+
+    /**
+     * `*ref* \`Ref<Item[]>\``, ou la signature d'une fonction
+     */
+    private formatMember(member: ComposableMember): string {
+        return `*${member.kind}*${member.type ? ` \`${member.type}\`` : ''}`;
+    }
+
+    /**
+     * Membre sous le curseur dans `const { items, total: count } = useCart()`
+     */
+    private findDestructuredMember(document: vscode.TextDocument, position: vscode.Position): { name: string, composableName: string, range: vscode.Range } | undefined {
+        const wordRange = document.getWordRangeAtPosition(position, /[\w$]+/);
+
+        if (!wordRange) {
+            return undefined;
+        }
+
+        const text = document.getText();
+        const wordStart = document.offsetAt(wordRange.start);
+        const destructuringRegex = /\b(?:const|let|var)\s*\{([^}]*)\}\s*=\s*(?:await\s+)?(use[A-Z$][\w$]*)\s*[(<]/g;
+        let match;
+
+        while ((match = destructuringRegex.exec(text)) !== null) {
+            const patternStart = match.index + match[0].indexOf('{') + 1;
+
+            if (wordStart < patternStart || wordStart > patternStart + match[1].length) {
+                continue;
+            }
+
+            // `items`, `total: count` ou `items = []` : la clé est le nom retourné par le composable
+            let entryStart = patternStart;
+
+            for (const entry of match[1].split(',')) {
+                const key = entry.match(/^\s*([\w$]+)/);
+
+                if (key && wordStart >= entryStart && wordStart <= entryStart + entry.length) {
+                    return { name: key[1], composableName: match[2], range: wordRange };
+                }
+
+                entryStart += entry.length + 1;
+            }
+
+            return undefined;
+        }
+
+        return undefined;
+    }
+}
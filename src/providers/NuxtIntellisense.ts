@@ -1,105 +1,81 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import * as fs from 'fs';
-import { ComponentService } from '../services/ComponentService';
-import { ComposableService } from '../services/ComposableService';
-import { PluginService } from '../services/PluginService';
-import { MiddlewareService } from '../services/MiddlewareService';
-import { LayoutService } from '../services/LayoutService';
-import { StoreService } from '../services/StoreService';
-import { UtilsService } from '../services/UtilsService';
-import { FileUtils } from '../utils/fileUtils';
-import { NuxtComponentInfo } from '../types';
+import { ProjectManager } from '../project/ProjectManager';
 
 export class NuxtIntellisense implements vscode.CodeLensProvider {
-    private nuxtProjectRoot: string | null = null;
-    private autoImportCache: Map<string, NuxtComponentInfo[]> = new Map();
-    private lastCacheUpdate: number = 0;
-    private cacheUpdateInterval: number = 30000;
-
-    private componentService?: ComponentService;
-
-    private composableService?: ComposableService;
-
-    private pluginService?: PluginService;
-
-    private middlewareService?: MiddlewareService;
-
-    private layoutService?: LayoutService;
-
-    private storeService?: StoreService;
-
-    private utilsService?: UtilsService;
-
-    private initializeServices() {
-        if (this.nuxtProjectRoot) {
-            this.componentService = new ComponentService(this.autoImportCache, this.nuxtProjectRoot);
-            this.composableService = new ComposableService(this.autoImportCache);
-            this.pluginService = new PluginService();
-            this.middlewareService = new MiddlewareService();
-            this.layoutService = new LayoutService();
-            this.storeService = new StoreService(this.autoImportCache);
-            this.utilsService = new UtilsService(this.autoImportCache, this.nuxtProjectRoot);
-        }
+    /**
+     * @param projectManager applications Nuxt de l'espace de travail, partagées avec les autres providers
+     */
+    constructor(private projectManager: ProjectManager) {
     }
 
     async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
         const lenses: vscode.CodeLens[] = [];
 
-        // Trouver la racine du projet Nuxt si pas encore fait
-        if (!this.nuxtProjectRoot) {
-            this.nuxtProjectRoot = await this.findNuxtProjectRoot(document.uri);
+        // Chaque document est rattaché à l'application Nuxt qui le contient
+        const context = await this.projectManager.getContext(document.uri);
 
-            this.initializeServices();
-        }
-
-        if (!this.nuxtProjectRoot) {
+        if (!context) {
             return [];
         }
 
-        const fileInfo = this.getFileInfo(document);
+        // Construire l'index du projet une seule fois, les mises à jour sont ensuite incrémentales
+        await context.ready();
+
+        const fileInfo = context.getFileInfo(document);
 
-        await this.updateAutoImportCacheIfNeeded(fileInfo);
+        await context.updateAutoImportCacheIfNeeded(fileInfo);
+
+        const {
+            componentService,
+            composableService,
+            pluginService,
+            middlewareService,
+            layoutService,
+            storeService,
+            utilsService
+        } = context;
 
         // Déléguer aux services appropriés
         try {
-            if (fileInfo.isComponent && this.componentService) {
-                const componentLenses = await this.componentService.provideCodeLenses(document);
+            const isConfiguredComponent = await componentService.isComponentFile(document.uri.fsPath);
+
+            if (fileInfo.isComponent || isConfiguredComponent) {
+                const componentLenses = await componentService.provideCodeLenses(document);
 
                 lenses.push(...componentLenses);
             }
 
-            if (fileInfo.isComposable && this.composableService) {
-                const composableLenses = await this.composableService.provideCodeLenses(document);
+            if (fileInfo.isComposable) {
+                const composableLenses = await composableService.provideCodeLenses(document);
 
                 lenses.push(...composableLenses);
             }
 
-            if (fileInfo.isPlugin && this.pluginService) {
-                const pluginLenses = await this.pluginService.provideCodeLenses(document);
+            if (fileInfo.isPlugin) {
+                const pluginLenses = await pluginService.provideCodeLenses(document);
 
                 lenses.push(...pluginLenses);
             }
 
-            if (fileInfo.isMiddleware && this.middlewareService) {
-                const middlewareLenses = await this.middlewareService.provideCodeLenses(document);
+            if (fileInfo.isMiddleware) {
+                const middlewareLenses = await middlewareService.provideCodeLenses(document);
 
                 lenses.push(...middlewareLenses);
             }
 
-            if (fileInfo.isLayout && this.layoutService) {
-                const layoutLenses = await this.layoutService.provideCodeLenses(document);
+            if (fileInfo.isLayout) {
+                const layoutLenses = await layoutService.provideCodeLenses(document);
 
                 lenses.push(...layoutLenses);
             }
 
-            if (fileInfo.isStore && this.storeService) {
-                const storeLenses = await this.storeService.provideCodeLenses(document);
+            if (fileInfo.isStore) {
+                const storeLenses = await storeService.provideCodeLenses(document);
 
                 lenses.push(...storeLenses);
             }
 
-            if (fileInfo.isUtil && this.utilsService) {
+            if (fileInfo.isUtil) {
                 const text = document.getText();
 
                 const utilsRegex = /export\s+(const|function|async function|interface|type|enum|class)\s+(\w+)/g;
@@ -128,7 +104,7 @@ export class NuxtIntellisense implements vscode.CodeLensProvider {
                     }
 
                     // Rechercher les références
-                    const references = await this.utilsService.findUtilsReferences(document, name, pos);
+                    const references = await utilsService.findUtilsReferences(document, name, pos);
 
                     const referenceCount = references.length;
 
@@ -151,98 +127,4 @@ export class NuxtIntellisense implements vscode.CodeLensProvider {
 
         return lenses;
     }
-
-    private getFileInfo(document: vscode.TextDocument) {
-        const fileDir = path.dirname(document.fileName);
-
-        const fileExtension = path.extname(document.fileName);
-
-        return {
-            isVueFile: fileExtension === '.vue',
-            isComponent: fileDir.includes('components'),
-            isComposable: fileDir.includes('composables'),
-            isPlugin: fileDir.includes('plugins'),
-            isMiddleware: fileDir.includes('middleware'),
-            isLayout: fileDir.includes('layouts'),
-            isStore: fileDir.includes('stores') || fileDir.includes('store'),
-            isUtil: fileDir.includes('utils') ||
-                fileDir.includes('lib') ||
-                fileDir.includes('services') ||
-                fileDir.includes('types') ||
-                fileDir.includes('helpers') ||
-                fileDir.includes('constants') ||
-                fileDir.includes('schemas') ||
-                fileDir.includes('validationSchemas')
-        };
-    }
-
-    private async findNuxtProjectRoot(uri: vscode.Uri): Promise<string | null> {
-        let currentDir = path.dirname(uri.fsPath);
-        const root = path.parse(currentDir).root;
-        let bestCandidate: string | null = null;
-
-        while (currentDir !== root) {
-            const nuxtConfigTsPath = path.join(currentDir, 'nuxt.config.ts');
-            const nuxtConfigJsPath = path.join(currentDir, 'nuxt.config.js');
-
-            const hasNuxtConfig = fs.existsSync(nuxtConfigTsPath) || fs.existsSync(nuxtConfigJsPath);
-            const hasPackageJson = fs.existsSync(path.join(currentDir, 'package.json'));
-            const hasGit = fs.existsSync(path.join(currentDir, '.git'));
-            const hasPnpmWorkspace = fs.existsSync(path.join(currentDir, 'pnpm-workspace.yaml'));
-
-            if (hasNuxtConfig) {
-                // On marque ce dossier comme un candidat potentiel
-                if (hasPackageJson || hasGit || hasPnpmWorkspace) {
-                    return currentDir; // Racine trouvée avec certitude
-                }
-
-                // Sinon on garde en mémoire comme fallback
-                bestCandidate = currentDir;
-            }
-
-            currentDir = path.dirname(currentDir);
-        }
-
-        // Si aucun dossier avec git/package.json mais un layer avec nuxt.config trouvé
-        return bestCandidate;
-    }
-
-
-    private async updateAutoImportCacheIfNeeded(fileInfo: any): Promise<void> {
-        const now = Date.now();
-
-        if (now - this.lastCacheUpdate < this.cacheUpdateInterval) {
-            return;
-        }
-
-        if (fileInfo.isComponent && this.componentService) {
-            const componentDirs = await FileUtils.findAllDirsByName(this.nuxtProjectRoot!, 'components');
-
-            for (const dir of componentDirs) {
-                await this.componentService.scanComponentsDirectory(dir);
-            }
-        }
-
-        if (fileInfo.isComposable && this.composableService) {
-            const composablesDirs = await FileUtils.findAllDirsByName(this.nuxtProjectRoot!, 'composables');
-
-            for (const dir of composablesDirs) {
-                await this.composableService.scanComposablesDirectory(dir);
-            }
-        }
-
-        if (fileInfo.isStore && this.storeService) {
-            const storeDirs = await FileUtils.findAllDirsByName(this.nuxtProjectRoot!, 'stores');
-
-            for (const dir of storeDirs) {
-                await this.storeService.scanStoresDirectory(dir);
-            }
-        }
-
-        if (fileInfo.isUtil && this.utilsService) {
-            await this.utilsService.scanUtilsDirectories();
-        }
-
-        this.lastCacheUpdate = now;
-    }
-}
\ No newline at end of file
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { ProjectManager } from '../project/ProjectManager';
+import { NuxtProjectContext } from '../project/NuxtProjectContext';
+import { TextUtils } from '../utils/textUtils';
+import type { NuxtSymbolAtPosition, NuxtSymbolDefinition } from '../types';
+
+/**
+ * "Find All References" for auto-imported symbols, from any usage site.
+ * Les recherches sont déléguées aux services, comme pour les CodeLens.
+ */
+export class NuxtReferenceProvider implements vscode.ReferenceProvider {
+    constructor(private projectManager: ProjectManager) {
+    }
+
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        referenceContext: vscode.ReferenceContext
+    ): Promise<vscode.Location[] | undefined> {
+        const context = await this.projectManager.getContext(document.uri);
+
+        if (!context) {
+            return undefined;
+        }
+
+        await context.ready();
+
+        try {
+            const symbol = await context.getSymbolAt(document, position);
+
+            if (!symbol) {
+                return undefined;
+            }
+
+            const definitions = await context.findDefinitions(symbol.kind, symbol.name);
+
+            // Dans le fichier qui les exporte, TypeScript trouve déjà les références ; les services l'interrogent
+            // eux-mêmes via `vscode.executeReferenceProvider`, ce qui évite aussi une récursion
+            const isExportingFile = definitions.some(definition => definition.filePath === document.uri.fsPath);
+
+            if ((symbol.kind === 'composable' || symbol.kind === 'util') && isExportingFile) {
+                return undefined;
+            }
+
+            const references = await this.findReferences(context, symbol, definitions);
+
+            if (referenceContext.includeDeclaration) {
+                references.push(...definitions.map(definition => new vscode.Location(
+                    vscode.Uri.file(definition.filePath),
+                    new vscode.Position(definition.line, definition.character)
+                )));
+            }
+
+            return TextUtils.removeDuplicateReferences(references);
+        } catch (error) {
+            console.error('Error providing references:', error);
+
+            return undefined;
+        }
+    }
+
+    private async findReferences(
+        context: NuxtProjectContext,
+        symbol: NuxtSymbolAtPosition,
+        definitions: NuxtSymbolDefinition[]
+    ): Promise<vscode.Location[]> {
+        switch (symbol.kind) {
+            case 'component':
+                return context.componentService.findComponentReferences(symbol.name);
+            case 'store':
+                return context.storeService.findStoreReferences(symbol.name);
+            case 'layout':
+                return context.layoutService.findLayoutReferences(symbol.name);
+            case 'middleware':
+                return context.middlewareService.findMiddlewareReferences(symbol.name);
+            case 'composable':
+            case 'util': {
+                // Les services recherchent les références à partir de la définition
+                const definition = definitions[0];
+
+                if (!definition) {
+                    return [];
+                }
+
+                const definitionDocument = await vscode.workspace.openTextDocument(definition.filePath);
+                const definitionPosition = new vscode.Position(definition.line, definition.character);
+
+                return symbol.kind === 'composable'
+                    ? context.composableService.findComposableReferences(definitionDocument, symbol.name, definitionPosition)
+                    : context.utilsService.findUtilsReferences(definitionDocument, symbol.name, definitionPosition);
+            }
+            default:
+                return [];
+        }
+    }
+}
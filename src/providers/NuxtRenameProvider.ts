@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectManager } from '../project/ProjectManager';
+import { NamingUtils } from '../utils/namingUtils';
+
+/**
+ * Renames auto-imported components: from a tag (F2) the file is renamed along with every usage,
+ * et un fichier renommé ou déplacé depuis l'explorateur met à jour les usages de son nouveau nom Nuxt.
+ */
+export class NuxtRenameProvider implements vscode.RenameProvider, vscode.Disposable {
+    private subscriptions: vscode.Disposable[] = [];
+
+    // Renommages (ancien → nouveau chemin) produits par un refactoring (F2) : leurs usages font déjà partie de son édition.
+    // Vidé au prochain renommage de fichiers, que l'édition ait été appliquée ou annulée
+    private pendingRenames: Map<string, string> = new Map();
+
+    constructor(private projectManager: ProjectManager) {
+        this.subscriptions.push(
+            vscode.workspace.onWillRenameFiles(event => event.waitUntil(this.provideFileRenameEdits(event.files)))
+        );
+    }
+
+    async prepareRename(document: vscode.TextDocument, position: vscode.Position): Promise<{ range: vscode.Range, placeholder: string } | undefined> {
+        const target = await this.findRenameTarget(document, position);
+
+        if (!target) {
+            return undefined;
+        }
+
+        return { range: target.range, placeholder: document.getText(target.range) };
+    }
+
+    async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string): Promise<vscode.WorkspaceEdit | undefined> {
+        const target = await this.findRenameTarget(document, position);
+
+        if (!target) {
+            return undefined;
+        }
+
+        const { context, componentName, filePaths, range } = target;
+
+        // `<lazy-user-card>` renommé en `lazy-user-profile` : le composant devient `UserProfile`
+        const text = document.getText(range);
+        const isLazyTag = /^(Lazy[A-Z]|lazy-)/.test(text) && !componentName.startsWith('Lazy');
+        let newComponentName = newName.includes('-') ? NamingUtils.pascalCase(newName) : newName;
+
+        if (isLazyTag && /^Lazy[A-Z]/.test(newComponentName)) {
+            newComponentName = newComponentName.slice('Lazy'.length);
+        }
+
+        if (!/^[A-Z][A-Za-z0-9]*$/.test(newComponentName)) {
+            throw new Error(`"${newName}" is not a valid component name`);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+
+        if (newComponentName === componentName) {
+            return edit;
+        }
+
+        const renamedFiles: [string, string][] = [];
+
+        // Variantes `.client` / `.server` et surcharges des layers portent le même nom
+        for (const filePath of filePaths) {
+            const newFilePath = await context.componentService.getRenamedComponentPath(filePath, newComponentName);
+
+            if (fs.existsSync(newFilePath)) {
+                throw new Error(`${path.relative(context.rootDir, newFilePath)} already exists`);
+            }
+
+            renamedFiles.push([filePath, newFilePath]);
+        }
+
+        this.pendingRenames.clear();
+
+        // Les imports par chemin visent un fichier précis : chaque variante met à jour les siens
+        for (const [filePath, newFilePath] of renamedFiles) {
+            await context.componentService.addComponentRenameEdits(edit, filePath, newFilePath);
+        }
+
+        for (const [filePath, newFilePath] of renamedFiles) {
+            this.pendingRenames.set(filePath, newFilePath);
+
+            edit.renameFile(vscode.Uri.file(filePath), vscode.Uri.file(newFilePath));
+        }
+
+        return edit;
+    }
+
+    /**
+     * Composant sous le curseur et fichiers du projet qui le définissent
+     */
+    private async findRenameTarget(document: vscode.TextDocument, position: vscode.Position) {
+        const context = await this.projectManager.getContext(document.uri);
+
+        if (!context) {
+            return undefined;
+        }
+
+        await context.ready();
+
+        const symbol = await context.getSymbolAt(document, position);
+
+        if (!symbol || symbol.kind !== 'component') {
+            return undefined;
+        }
+
+        const definitions = await context.findDefinitions('component', symbol.name);
+
+        if (definitions.length === 0) {
+            return undefined;
+        }
+
+        const filePaths = definitions
+            .map(definition => definition.filePath)
+            .filter(filePath => !filePath.includes(`${path.sep}node_modules${path.sep}`));
+
+        if (filePaths.length === 0) {
+            throw new Error(`${symbol.name} is provided by a module and cannot be renamed`);
+        }
+
+        return {
+            context,
+            componentName: symbol.name,
+            filePaths,
+            range: new vscode.Range(symbol.line, symbol.character, symbol.line, symbol.character + symbol.length)
+        };
+    }
+
+    /**
+     * Usages à mettre à jour avant qu'un fichier ou un dossier de composants soit renommé
+     */
+    private async provideFileRenameEdits(files: readonly { oldUri: vscode.Uri, newUri: vscode.Uri }[]): Promise<vscode.WorkspaceEdit> {
+        const edit = new vscode.WorkspaceEdit();
+
+        try {
+            for (const file of files) {
+                if (file.oldUri.scheme !== 'file' || this.pendingRenames.get(file.oldUri.fsPath) === file.newUri.fsPath) {
+                    continue;
+                }
+
+                const context = await this.projectManager.getContext(file.oldUri);
+
+                if (!context) {
+                    continue;
+                }
+
+                await context.ready();
+
+                // Un dossier renommé déplace tous les fichiers qu'il contient
+                const oldPath = file.oldUri.fsPath;
+                const movedFiles = context.projectIndex.getFiles()
+                    .filter(indexed => indexed.path === oldPath || indexed.path.startsWith(oldPath + path.sep));
+
+                for (const moved of movedFiles) {
+                    const newPath = moved.path === oldPath
+                        ? file.newUri.fsPath
+                        : path.join(file.newUri.fsPath, path.relative(oldPath, moved.path));
+
+                    await context.componentService.addComponentRenameEdits(edit, moved.path, newPath);
+                }
+            }
+        } catch (error) {
+            console.error('Error updating component usages:', error);
+        }
+
+        this.pendingRenames.clear();
+
+        return edit;
+    }
+
+    public dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.pendingRenames.clear();
+    }
+}
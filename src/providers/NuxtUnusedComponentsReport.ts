@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProjectManager } from '../project/ProjectManager';
+
+/**
+ * "Find Unused Components": lists the components of every Nuxt app that nothing references.
+ * Le rapport est un document Markdown, regroupé par application puis par dossier.
+ */
+export class NuxtUnusedComponentsReport {
+    constructor(private projectManager: ProjectManager) {
+    }
+
+    async show(): Promise<void> {
+        try {
+            const markdown = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Searching unused components...'
+            }, () => this.buildReport());
+
+            if (!markdown) {
+                vscode.window.showInformationMessage('No unused components found.');
+
+                return;
+            }
+
+            const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: markdown });
+
+            await vscode.window.showTextDocument(document);
+        } catch (error) {
+            console.error('Error finding unused components:', error);
+
+            vscode.window.showErrorMessage('Failed to search unused components.');
+        }
+    }
+
+    /**
+     * Retourne le rapport, ou `undefined` si tous les composants sont utilisés
+     */
+    private async buildReport(): Promise<string | undefined> {
+        const sections: string[] = [];
+        let total = 0;
+
+        for (const context of await this.projectManager.getAllContexts()) {
+            await context.ready();
+
+            const unused = await context.componentService.findUnusedComponents();
+
+            if (unused.length === 0) {
+                continue;
+            }
+
+            total += unused.length;
+
+            const byDirectory = new Map<string, { name: string, filePath: string }[]>();
+
+            for (const component of unused) {
+                const directory = path.relative(context.rootDir, path.dirname(component.filePath)) || '.';
+
+                byDirectory.set(directory, [...(byDirectory.get(directory) || []), component]);
+            }
+
+            const lines = [`## ${path.basename(context.rootDir)}`, ''];
+
+            for (const [directory, components] of byDirectory) {
+                lines.push(`### ${directory}`, '');
+
+                for (const component of components) {
+                    lines.push(`- [${component.name}](${vscode.Uri.file(component.filePath)}) \`${path.basename(component.filePath)}\``);
+                }
+
+                lines.push('');
+            }
+
+            sections.push(lines.join('\n'));
+        }
+
+        if (total === 0) {
+            return undefined;
+        }
+
+        return [
+            '# Unused components',
+            '',
+            `${total} component${total > 1 ? 's are' : ' is'} never used in a template, rendered dynamically or imported explicitly.`,
+            '',
+            ...sections
+        ].join('\n');
+    }
+}
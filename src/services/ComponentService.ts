@@ -1,8 +1,21 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as ts from 'typescript';
 import { PathUtils } from '../utils/pathUtils';
-import { NuxtComponentInfo } from '../types';
+import { TextUtils } from '../utils/textUtils';
+import { SfcParser } from '../parsers/SfcParser';
+import { TemplateParser } from '../parsers/TemplateParser';
+import { ScriptParser } from '../parsers/ScriptParser';
+import { ProjectIndex } from '../index/ProjectIndex';
+import { NuxtConfigLoader } from '../config/NuxtConfigLoader';
+import { ComponentsConfigResolver } from '../config/ComponentsConfigResolver';
+import { LayerResolver } from '../config/LayerResolver';
+import { NamingUtils } from '../utils/namingUtils';
+import { ImportMapLoader } from '../project/ImportMapLoader';
+import { ComponentParser } from '../parsers/ComponentParser';
+import { ComponentMeta, IndexedUsage, NuxtComponentInfo, NuxtLayer, ResolvedComponentsDir } from '../types';
+import type { ElementNode, SourceLocation } from '@vue/compiler-dom';
 
 interface ReferenceCache {
     references: vscode.Location[];
@@ -10,22 +23,70 @@ interface ReferenceCache {
 }
 
 interface ComponentDirsCache {
-    dirs: string[];
+    dirs: ResolvedComponentsDir[];
     timestamp: number;
 }
 
+interface TagAttributes {
+    props: Map<string, vscode.Location[]>;
+    listeners: Map<string, vscode.Location[]>;
+    slotFills: Map<string, vscode.Location[]>;
+}
+
+interface TagAttributesCache {
+    attributes: TagAttributes;
+    timestamp: number;
+}
+
+interface ComponentMetaCache {
+    meta: ComponentMeta;
+    mtime: number;
+}
+
+// Dossiers dans lesquels on ne cherche pas d'utilisations de composants
+const COMPONENT_SEARCH_EXCLUDED_DIRS = ['utils', 'lib', 'helpers', 'constants', 'shared', 'public', 'config', 'assets'];
+
+// Attributs acceptés par tout composant : attributs réservés de Vue et attributs transmis à l'élément racine
+const FALLTHROUGH_ATTRIBUTES = ['key', 'ref', 'is', 'slot', 'class', 'style', 'id', 'title', 'role', 'tabindex', 'hidden', 'lang', 'dir'];
+
+// Événements DOM écoutés sur l'élément racine quand le composant ne les émet pas (`GlobalEventHandlers` et événements des éléments)
+const NATIVE_EVENTS = new Set([
+    'abort', 'animationcancel', 'animationend', 'animationiteration', 'animationstart', 'auxclick',
+    'beforeinput', 'beforematch', 'beforetoggle', 'blur', 'cancel', 'canplay', 'canplaythrough', 'change', 'click', 'close',
+    'compositionend', 'compositionstart', 'compositionupdate', 'contextlost', 'contextmenu', 'contextrestored', 'copy', 'cuechange', 'cut',
+    'dblclick', 'drag', 'dragend', 'dragenter', 'dragleave', 'dragover', 'dragstart', 'drop', 'durationchange',
+    'emptied', 'ended', 'error', 'focus', 'focusin', 'focusout', 'formdata', 'fullscreenchange', 'fullscreenerror',
+    'gotpointercapture', 'input', 'invalid', 'keydown', 'keypress', 'keyup',
+    'load', 'loadeddata', 'loadedmetadata', 'loadstart', 'lostpointercapture',
+    'mousedown', 'mouseenter', 'mouseleave', 'mousemove', 'mouseout', 'mouseover', 'mouseup',
+    'paste', 'pause', 'play', 'playing', 'pointercancel', 'pointerdown', 'pointerenter', 'pointerleave', 'pointermove',
+    'pointerout', 'pointerover', 'pointerup', 'progress', 'ratechange', 'reset', 'resize',
+    'scroll', 'scrollend', 'securitypolicyviolation', 'seeked', 'seeking', 'select', 'selectionchange', 'selectstart',
+    'slotchange', 'stalled', 'submit', 'suspend', 'timeupdate', 'toggle',
+    'touchcancel', 'touchend', 'touchmove', 'touchstart',
+    'transitioncancel', 'transitionend', 'transitionrun', 'transitionstart',
+    'volumechange', 'waiting', 'webkitanimationend', 'webkitanimationiteration', 'webkitanimationstart', 'webkittransitionend', 'wheel'
+]);
+
 export class ComponentService {
     private referenceCache: Map<string, ReferenceCache> = new Map();
     private componentDirsCache: ComponentDirsCache | null = null;
     private componentNameCache: Map<string, string> = new Map(); // Cache pour les noms de composants par chemin
+    private componentFilesByName: Map<string, string[]> | null = null; // Fichiers définissant chaque composant, tous layers confondus
+    private componentMetaCache: Map<string, ComponentMetaCache> = new Map(); // Props, emits, slots... par chemin
+    private tagAttributesCache: Map<string, TagAttributesCache> = new Map(); // Props, écouteurs et slots passés, par composant
     private referenceCacheTTL: number = 300000; // 5 minutes
     private dirsCacheTTL: number = 600000; // 10 minutes
-    private fileWatcher: vscode.FileSystemWatcher | undefined;
+    private indexSubscription: vscode.Disposable | undefined;
+    private importMapSubscription: vscode.Disposable | undefined;
     private initialized: boolean = false;
 
     constructor(
         private autoImportCache: Map<string, NuxtComponentInfo[]>,
-        private nuxtProjectRoot: string
+        private nuxtProjectRoot: string,
+        private projectIndex: ProjectIndex,
+        private layers: NuxtLayer[] = [],
+        private importMap?: ImportMapLoader
     ) {
     }
 
@@ -40,49 +101,71 @@ export class ComponentService {
         // Précharger les répertoires de composants (coûteux)
         await this.getCachedComponentDirs();
 
-        // Mettre en place un watcher ciblé pour les fichiers Vue
-        this.setupFileWatcher();
+        // Être notifié des fichiers modifiés par l'index du projet
+        this.indexSubscription = this.projectIndex.onDidUpdate(({ paths, previousUsages }) => {
+            // Une modification de nuxt.config peut changer les dossiers et les noms des composants
+            if (paths.some(filePath => NuxtConfigLoader.configFileNames.includes(path.basename(filePath)))) {
+                this.invalidateAllCaches();
+                return;
+            }
 
-        this.initialized = true;
-    }
+            this.componentFilesByName = null;
+            this.autoImportCache.delete('components');
 
-    private setupFileWatcher() {
-        // Surveiller uniquement les fichiers Vue dans les répertoires de composants
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher(
-            '**/components/**/*.vue',
-            false, // Ne pas ignorer les créations
-            false, // Ne pas ignorer les changements
-            false  // Ne pas ignorer les suppressions
-        );
+            paths.forEach(filePath => this.invalidateSpecificCache(filePath, previousUsages.get(filePath) || []));
+        });
 
-        // Lors d'un changement de fichier, invalider seulement le cache spécifique
-        this.fileWatcher.onDidChange(uri => this.invalidateSpecificCache(uri.fsPath));
-        this.fileWatcher.onDidCreate(uri => this.invalidateSpecificCache(uri.fsPath));
-        this.fileWatcher.onDidDelete(uri => this.invalidateSpecificCache(uri.fsPath));
+        // `.nuxt/components.d.ts` régénéré : les noms peuvent avoir changé
+        this.importMapSubscription = this.importMap?.onDidChange(() => this.invalidateAllCaches());
 
-        // S'assurer que le watcher est disposé lorsqu'il n'est plus nécessaire
-        vscode.Disposable.from(this.fileWatcher);
+        this.initialized = true;
     }
 
     /**
      * Invalide seulement les entrées de cache liées à un fichier spécifique
+     *
+     * @param previousUsages usages du fichier avant sa mise à jour : une balise retirée ou un fichier supprimé change aussi les compteurs
      */
-    private invalidateSpecificCache(filePath: string): void {
-        // Si le fichier est un composant, invalider son propre cache
+    private invalidateSpecificCache(filePath: string, previousUsages: IndexedUsage[]): void {
+        // Le composant lui-même et les composants utilisés dans le fichier, avant et après la modification
+        const impactedNames = new Set<string>();
+
         const nuxtComponentName = this.getCachedComponentName(filePath);
+
         if (nuxtComponentName) {
-            // Supprimer toutes les entrées de cache qui contiennent ce nom de composant
-            const keysToRemove: string[] = [];
-            for (const cacheKey of this.referenceCache.keys()) {
-                if (cacheKey.includes(nuxtComponentName)) {
-                    keysToRemove.push(cacheKey);
-                }
+            impactedNames.add(nuxtComponentName);
+        }
+
+        for (const usage of [...previousUsages, ...(this.projectIndex.getFile(filePath)?.usages || [])]) {
+            if (usage.kind !== 'tag' && usage.kind !== 'dynamicComponent') {
+                continue;
             }
 
-            keysToRemove.forEach(key => {
-                this.referenceCache.delete(key);
-            });
+            // `<lazy-user-card>` et `LazyUserCard` comptent pour `UserCard` (ou pour un composant réellement nommé `LazyUserCard`)
+            const name = usage.name.includes('-') ? NamingUtils.pascalCase(usage.name) : usage.name;
+
+            impactedNames.add(name);
+
+            if (/^Lazy[A-Z]/.test(name)) {
+                impactedNames.add(name.slice('Lazy'.length));
+            }
+        }
+
+        // Supprimer toutes les entrées de cache qui contiennent ces noms de composants
+        const keysToRemove: string[] = [];
+        for (const cacheKey of this.referenceCache.keys()) {
+            const cachedName = cacheKey.split(':').slice(-2, -1)[0];
+
+            if (impactedNames.has(cachedName)) {
+                keysToRemove.push(cacheKey);
+            }
         }
+
+        keysToRemove.forEach(key => {
+            this.referenceCache.delete(key);
+        });
+
+        impactedNames.forEach(name => this.tagAttributesCache.delete(name));
     }
 
     async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
@@ -100,20 +183,37 @@ export class ComponentService {
         // Utiliser la version mise en cache des répertoires
         const allComponentDirs = await this.getCachedComponentDirs();
 
+        // Le dossier le plus spécifique contenant le fichier détermine ses options
+        const componentDir = allComponentDirs.find(dir => ComponentsConfigResolver.isComponentFile(document.uri.fsPath, dir));
+
         // Obtenir le nom du composant Nuxt à partir du cache
         let nuxtComponentName = this.getCachedComponentName(document.uri.fsPath);
 
         if (!nuxtComponentName) {
             // On ne l'a pas encore dans le cache, le calculer
-            for (const dir of allComponentDirs) {
-                if (document.uri.fsPath.startsWith(dir)) {
-                    nuxtComponentName = this.getNuxtComponentName(document.uri.fsPath, dir);
-                    // Mettre en cache pour une utilisation future
-                    this.componentNameCache.set(document.uri.fsPath, nuxtComponentName);
-                    break;
-                }
+            nuxtComponentName = this.getNuxtComponentName(document.uri.fsPath, componentDir);
+
+            if (nuxtComponentName) {
+                // Mettre en cache pour une utilisation future
+                this.componentNameCache.set(document.uri.fsPath, nuxtComponentName);
             }
-        } else {
+        }
+
+        const nameLabel = componentDir?.global ? `${nuxtComponentName} 🌍` : nuxtComponentName;
+
+        // Un composant du même nom dans un layer plus prioritaire remplace celui-ci
+        const overridingPath = nuxtComponentName
+            ? await this.findOverridingComponent(document.uri.fsPath, nuxtComponentName)
+            : undefined;
+
+        if (overridingPath) {
+            return [
+                new vscode.CodeLens(new vscode.Range(0, 0, 0, 0), {
+                    title: `🧩 Overridden by ${path.relative(this.nuxtProjectRoot, overridingPath)} | ${nameLabel}`,
+                    command: 'vscode.open',
+                    arguments: [vscode.Uri.file(overridingPath)]
+                })
+            ];
         }
 
         const text = document.getText();
@@ -142,11 +242,9 @@ export class ComponentService {
             const cacheKey = `${documentCacheKey}:${nuxtComponentName}:setup`;
             const references = await this.getCachedReferences(cacheKey, String(nuxtComponentName));
 
-            const referenceCount = references.length;
-
             lenses.push(
                 new vscode.CodeLens(range, {
-                    title: `🧩 ${referenceCount} reference${referenceCount > 1 ? 's' : ''} | ${nuxtComponentName}`,
+                    title: `🧩 ${this.formatReferenceCount(references, String(nuxtComponentName))} | ${nameLabel}`,
                     command: 'editor.action.showReferences',
                     arguments: [
                         document.uri,
@@ -169,11 +267,9 @@ export class ComponentService {
                 const cacheKey = `${documentCacheKey}:${nuxtComponentName}:defineComponent`;
                 const references = await this.getCachedReferences(cacheKey, String(nuxtComponentName));
 
-                const referenceCount = references.length;
-
                 lenses.push(
                     new vscode.CodeLens(range, {
-                        title: `🧩 ${referenceCount} reference${referenceCount > 1 ? 's' : ''} | ${nuxtComponentName}`,
+                        title: `🧩 ${this.formatReferenceCount(references, String(nuxtComponentName))} | ${nameLabel}`,
                         command: 'editor.action.showReferences',
                         arguments: [
                             document.uri,
@@ -196,11 +292,10 @@ export class ComponentService {
 
                 const cacheKey = `${documentCacheKey}:${nuxtComponentName}:defineNuxtComponent`;
                 const references = await this.getCachedReferences(cacheKey, String(nuxtComponentName));
-                const referenceCount = references.length;
 
                 lenses.push(
                     new vscode.CodeLens(range, {
-                        title: `⚡ ${referenceCount} reference${referenceCount > 1 ? 's' : ''} | ${nuxtComponentName}`,
+                        title: `⚡ ${this.formatReferenceCount(references, String(nuxtComponentName))} | ${nameLabel}`,
                         command: 'editor.action.showReferences',
                         arguments: [
                             document.uri,
@@ -226,11 +321,9 @@ export class ComponentService {
                 const cacheKey = `${documentCacheKey}:${nuxtComponentName}:template`;
                 const references = await this.getCachedReferences(cacheKey, String(nuxtComponentName));
 
-                const referenceCount = references.length;
-
                 lenses.push(
                     new vscode.CodeLens(range, {
-                        title: `🧩 ${referenceCount} reference${referenceCount > 1 ? 's' : ''} | ${nuxtComponentName}`,
+                        title: `🧩 ${this.formatReferenceCount(references, String(nuxtComponentName))} | ${nameLabel}`,
                         command: 'editor.action.showReferences',
                         arguments: [
                             document.uri,
@@ -242,9 +335,82 @@ export class ComponentService {
             }
         }
 
+        // Un CodeLens par prop, événement et slot déclarés, avec les parents qui les utilisent
+        if (nuxtComponentName) {
+            lenses.push(...await this.providePropLenses(document, nuxtComponentName));
+            lenses.push(...await this.provideEmitLenses(document, nuxtComponentName));
+            lenses.push(...await this.provideSlotLenses(document, nuxtComponentName));
+        }
+
         return lenses;
     }
 
+    private async providePropLenses(document: vscode.TextDocument, componentName: string): Promise<vscode.CodeLens[]> {
+        const declarations = ComponentParser.findPropDeclarations(document.getText(), document.fileName);
+
+        if (declarations.length === 0) {
+            return [];
+        }
+
+        const usagesByProp = await this.findComponentPropUsages(componentName);
+
+        return declarations.map(declaration => {
+            const pos = document.positionAt(declaration.offset);
+            const usages = usagesByProp.get(NamingUtils.camelize(declaration.name)) || [];
+            const usageCount = usages.length;
+
+            return new vscode.CodeLens(new vscode.Range(pos.line, 0, pos.line, 0), {
+                title: `🎛️ ${usageCount} usage${usageCount > 1 ? 's' : ''} | ${declaration.name}`,
+                command: usageCount > 0 ? 'editor.action.showReferences' : '',
+                arguments: usageCount > 0 ? [document.uri, pos, usages] : undefined
+            });
+        });
+    }
+
+    private async provideEmitLenses(document: vscode.TextDocument, componentName: string): Promise<vscode.CodeLens[]> {
+        const declarations = ComponentParser.findEmitDeclarations(document.getText(), document.fileName);
+
+        if (declarations.length === 0) {
+            return [];
+        }
+
+        const listenersByEvent = await this.findComponentListeners(componentName);
+
+        return declarations.map(declaration => {
+            const pos = document.positionAt(declaration.offset);
+            const listeners = listenersByEvent.get(NamingUtils.camelize(declaration.name)) || [];
+            const listenerCount = listeners.length;
+
+            return new vscode.CodeLens(new vscode.Range(pos.line, 0, pos.line, 0), {
+                title: `📣 ${listenerCount} listener${listenerCount > 1 ? 's' : ''} | ${declaration.name}`,
+                command: listenerCount > 0 ? 'editor.action.showReferences' : '',
+                arguments: listenerCount > 0 ? [document.uri, pos, listeners] : undefined
+            });
+        });
+    }
+
+    private async provideSlotLenses(document: vscode.TextDocument, componentName: string): Promise<vscode.CodeLens[]> {
+        const declarations = ComponentParser.findSlotDeclarations(document.getText(), document.fileName);
+
+        if (declarations.length === 0) {
+            return [];
+        }
+
+        const fillsBySlot = await this.findComponentSlotFills(componentName);
+
+        return declarations.map(declaration => {
+            const pos = document.positionAt(declaration.offset);
+            const fills = fillsBySlot.get(NamingUtils.camelize(declaration.name)) || [];
+            const fillCount = fills.length;
+
+            return new vscode.CodeLens(new vscode.Range(pos.line, 0, pos.line, 0), {
+                title: `🧱 ${fillCount} fill${fillCount > 1 ? 's' : ''} | #${declaration.name}`,
+                command: fillCount > 0 ? 'editor.action.showReferences' : '',
+                arguments: fillCount > 0 ? [document.uri, pos, fills] : undefined
+            });
+        });
+    }
+
     /**
      * Récupère le nom du composant depuis le cache
      */
@@ -280,7 +446,7 @@ export class ComponentService {
     /**
      * Récupère les répertoires de composants mis en cache ou les calcule si nécessaire
      */
-    private async getCachedComponentDirs(): Promise<string[]> {
+    private async getCachedComponentDirs(): Promise<ResolvedComponentsDir[]> {
         const now = Date.now();
 
         // Retourner les répertoires en cache s'ils sont toujours valides
@@ -308,36 +474,39 @@ export class ComponentService {
             return [];
         }
 
-        const kebab = PathUtils.pascalToKebabCase(componentName);
+        const tagNames = this.getComponentTagNames(componentName);
 
         const results: vscode.Location[] = [];
 
-        const uris = await vscode.workspace.findFiles(
-            '**/*.vue',
-            '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**,**/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**}'
-        );
+        const candidatePaths = this.getComponentUsageFiles(tagNames);
 
         // Traiter les fichiers par lots pour éviter les problèmes de mémoire
         const batchSize = 50;
-        for (let i = 0; i < uris.length; i += batchSize) {
-            const batch = uris.slice(i, i + batchSize);
-            const batchPromises = batch.map(async (uri) => {
-                if (path.basename(uri.fsPath) === 'app.vue' ||
-                    path.basename(uri.fsPath) === 'error.vue') {
+        for (let i = 0; i < candidatePaths.length; i += batchSize) {
+            const batch = candidatePaths.slice(i, i + batchSize);
+            const batchPromises = batch.map(async (filePath) => {
+                if (path.basename(filePath) === 'app.vue' ||
+                    path.basename(filePath) === 'error.vue') {
                     return;
                 }
 
-                let content: string;
-                try {
-                    content = fs.readFileSync(uri.fsPath, 'utf-8');
-                } catch (error) {
+                const content = await this.projectIndex.readContent(filePath);
+
+                if (content === null) {
+                    return;
+                }
+
+                const uri = vscode.Uri.file(filePath);
+
+                const templateReferences = this.findTemplateTagReferences(content, filePath, tagNames);
+
+                if (templateReferences) {
+                    results.push(...templateReferences);
                     return;
                 }
 
-                const searchPatterns = [
-                    new RegExp(`<${componentName}(\\s[\\s\\S]*?)?\\s*(/?)>`, 'gs'),
-                    new RegExp(`<${kebab}(\\s[\\s\\S]*?)?\\s*(/?)>`, 'gs')
-                ];
+                // Repli sur la recherche textuelle (templates pug, fichiers non analysables)
+                const searchPatterns = tagNames.map(tagName => new RegExp(`<${tagName}(\\s[\\s\\S]*?)?\\s*(/?)>`, 'gs'));
 
                 for (const regex of searchPatterns) {
                     let match;
@@ -399,9 +568,260 @@ export class ComponentService {
             await Promise.all(batchPromises);
         }
 
+        results.push(...await this.findIslandReferences(componentName));
+        results.push(...this.findDynamicComponentReferences(componentName));
+
         return results;
     }
 
+    /**
+     * Balises sous lesquelles un composant peut être utilisé : `UserCard`, `user-card` et leurs variantes `Lazy`
+     */
+    private getComponentTagNames(componentName: string): string[] {
+        const kebab = PathUtils.pascalToKebabCase(componentName);
+
+        return [componentName, kebab, `Lazy${componentName}`, `lazy-${kebab}`];
+    }
+
+    /**
+     * Composants rendus par leur nom (`resolveComponent('UserCard')`, `<component :is="'UserCard'">`, table de composants)
+     */
+    findDynamicComponentReferences(componentName: string): vscode.Location[] {
+        return this.projectIndex.getUsages('dynamicComponent', this.getComponentTagNames(componentName)).map(({ file, usage }) => new vscode.Location(
+            vscode.Uri.file(file.path),
+            new vscode.Range(usage.line, usage.character, usage.line, usage.character + usage.name.length)
+        ));
+    }
+
+    /**
+     * Nombre de références d'un composant, en précisant celles qui le rendent dynamiquement
+     */
+    formatReferenceCount(references: vscode.Location[], componentName: string): string {
+        const referenceCount = references.length;
+        const dynamicCount = this.findDynamicComponentReferences(componentName).length;
+
+        return `${referenceCount} reference${referenceCount > 1 ? 's' : ''}${dynamicCount > 0 ? ` (${dynamicCount} dynamic)` : ''}`;
+    }
+
+    /**
+     * Rendus d'un composant îlot via `<NuxtIsland name="...">`
+     */
+    private async findIslandReferences(componentName: string): Promise<vscode.Location[]> {
+        const islandTags = ['NuxtIsland', 'nuxt-island'];
+        const locations: vscode.Location[] = [];
+
+        for (const filePath of this.getComponentUsageFiles(islandTags)) {
+            const content = await this.projectIndex.readContent(filePath);
+
+            if (content === null) {
+                continue;
+            }
+
+            let templateAst;
+
+            try {
+                templateAst = SfcParser.parse(content, filePath).template?.ast;
+            } catch (error) {
+                continue;
+            }
+
+            if (!templateAst) {
+                continue;
+            }
+
+            TemplateParser.walkElements(templateAst, element => {
+                const nameAttribute = TemplateParser.getAttributes(element).find(attribute => attribute.name === 'name');
+
+                if (!islandTags.includes(element.tag) || nameAttribute?.value?.content !== componentName) {
+                    return;
+                }
+
+                const start = TextUtils.indexToPosition(content, element.loc.start.offset);
+                const end = TextUtils.indexToPosition(content, TemplateParser.getStartTagEnd(element, content));
+
+                locations.push(new vscode.Location(
+                    vscode.Uri.file(filePath),
+                    new vscode.Range(
+                        new vscode.Position(start.line, start.character),
+                        new vscode.Position(end.line, end.character)
+                    )
+                ));
+            });
+        }
+
+        return locations;
+    }
+
+    /**
+     * Fichiers Vue dont l'index a relevé une des balises
+     */
+    private getComponentUsageFiles(tagNames: string[]): string[] {
+        const candidates = this.projectIndex.getUsages('tag', tagNames, {
+            extensions: ['.vue'],
+            excludeDirs: COMPONENT_SEARCH_EXCLUDED_DIRS
+        });
+
+        return [...new Set(candidates.map(({ file }) => file.path))];
+    }
+
+    /**
+     * Écouteurs (`@event`, `v-on:event`) posés sur les balises d'un composant, par nom d'événement en camelCase
+     */
+    async findComponentListeners(componentName: string): Promise<Map<string, vscode.Location[]>> {
+        return (await this.getCachedTagAttributes(componentName)).listeners;
+    }
+
+    /**
+     * Props passées aux balises d'un composant (attributs, `:prop`, `v-model`), par nom de prop en camelCase
+     */
+    async findComponentPropUsages(componentName: string): Promise<Map<string, vscode.Location[]>> {
+        return (await this.getCachedTagAttributes(componentName)).props;
+    }
+
+    /**
+     * Slots remplis dans les balises d'un composant (`#name`, `v-slot:name`, contenu par défaut), par nom de slot en camelCase
+     */
+    async findComponentSlotFills(componentName: string): Promise<Map<string, vscode.Location[]>> {
+        return (await this.getCachedTagAttributes(componentName)).slotFills;
+    }
+
+    /**
+     * Props, écouteurs et slots relevés sur les balises d'un composant, mis en cache comme les références
+     */
+    private async getCachedTagAttributes(componentName: string): Promise<TagAttributes> {
+        const now = Date.now();
+        const cachedData = this.tagAttributesCache.get(componentName);
+
+        if (cachedData && (now - cachedData.timestamp < this.referenceCacheTTL)) {
+            return cachedData.attributes;
+        }
+
+        const attributes = await this.collectTagAttributes(componentName);
+
+        this.tagAttributesCache.set(componentName, { attributes, timestamp: now });
+
+        return attributes;
+    }
+
+    /**
+     * Regroupe par nom en camelCase les props, écouteurs et slots de chaque balise du composant,
+     * en une seule lecture de chaque fichier parent
+     */
+    private async collectTagAttributes(componentName: string): Promise<TagAttributes> {
+        const tagNames = this.getComponentTagNames(componentName);
+        const attributes: TagAttributes = { props: new Map(), listeners: new Map(), slotFills: new Map() };
+
+        for (const filePath of this.getComponentUsageFiles(tagNames)) {
+            const content = await this.projectIndex.readContent(filePath);
+
+            if (content === null) {
+                continue;
+            }
+
+            let templateAst;
+
+            try {
+                templateAst = SfcParser.parse(content, filePath).template?.ast;
+            } catch (error) {
+                continue;
+            }
+
+            if (!templateAst) {
+                continue;
+            }
+
+            const uri = vscode.Uri.file(filePath);
+
+            const add = (target: Map<string, vscode.Location[]>, items: { name: string, loc: SourceLocation }[]) => {
+                for (const { name, loc } of items) {
+                    const start = TextUtils.indexToPosition(content, loc.start.offset);
+                    const end = TextUtils.indexToPosition(content, loc.end.offset);
+                    const key = NamingUtils.camelize(name);
+
+                    target.set(key, [...(target.get(key) || []), new vscode.Location(
+                        uri,
+                        new vscode.Range(
+                            new vscode.Position(start.line, start.character),
+                            new vscode.Position(end.line, end.character)
+                        )
+                    )]);
+                }
+            };
+
+            TemplateParser.walkElements(templateAst, element => {
+                if (!tagNames.includes(element.tag)) {
+                    return;
+                }
+
+                add(attributes.props, this.getPassedProps(element));
+                add(attributes.listeners, TemplateParser.getDirectives(element, 'on')
+                    .map(directive => ({ name: TemplateParser.getDirectiveArgument(directive)!, loc: directive.loc }))
+                    .filter(listener => !!listener.name));
+                add(attributes.slotFills, TemplateParser.getSlotFills(element));
+            });
+        }
+
+        return attributes;
+    }
+
+    /**
+     * Props passées sur une balise : attributs statiques, `:prop` et `v-model` (`modelValue`, `v-model:count` → `count`)
+     */
+    private getPassedProps(element: ElementNode): { name: string, loc: SourceLocation, bound: boolean }[] {
+        return [
+            ...TemplateParser.getAttributes(element).map(attribute => ({ name: attribute.name, loc: attribute.loc, bound: false })),
+            ...TemplateParser.getDirectives(element, 'bind')
+                .map(directive => ({ name: TemplateParser.getDirectiveArgument(directive)!, loc: directive.loc, bound: true }))
+                .filter(prop => !!prop.name),
+            ...TemplateParser.getDirectives(element, 'model').map(directive => ({
+                name: TemplateParser.getDirectiveArgument(directive) ?? 'modelValue',
+                loc: directive.loc,
+                bound: true
+            }))
+        ];
+    }
+
+    /**
+     * Recherche les balises d'un composant dans l'AST du template.
+     * Retourne null si le template ne peut pas être analysé.
+     */
+    private findTemplateTagReferences(content: string, filePath: string, tagNames: string[]): vscode.Location[] | null {
+        let templateAst;
+
+        try {
+            templateAst = SfcParser.parse(content, filePath).template?.ast;
+        } catch (error) {
+            return null;
+        }
+
+        if (!templateAst) {
+            return null;
+        }
+
+        const uri = vscode.Uri.file(filePath);
+        const locations: vscode.Location[] = [];
+
+        TemplateParser.walkElements(templateAst, element => {
+            if (!tagNames.includes(element.tag)) {
+                return;
+            }
+
+            // La référence couvre la balise ouvrante, comme la recherche textuelle
+            const start = TextUtils.indexToPosition(content, element.loc.start.offset);
+            const end = TextUtils.indexToPosition(content, TemplateParser.getStartTagEnd(element, content));
+
+            locations.push(new vscode.Location(
+                uri,
+                new vscode.Range(
+                    new vscode.Position(start.line, start.character),
+                    new vscode.Position(end.line, end.character)
+                )
+            ));
+        });
+
+        return locations;
+    }
+
     // Fonction pour vérifier si un chemin doit être ignoré
     private shouldIgnorePath(fullPath: string): boolean {
         const baseIgnoredDirs = new Set([
@@ -458,13 +878,47 @@ export class ComponentService {
         return false;
     }
 
-    async findAllComponentsDirs(): Promise<string[]> {
-        const dirs: string[] = [];
-
+    /**
+     * Retourne les dossiers de composants déclarés par l'option `components` de nuxt.config,
+     * complétés par les dossiers `components` découverts hors de ceux-ci (ex: pages/admin/components)
+     */
+    async findAllComponentsDirs(): Promise<ResolvedComponentsDir[]> {
         if (!this.nuxtProjectRoot) {
-            return dirs;
+            return [];
+        }
+
+        const dirs = this.layers.length > 0
+            ? ComponentsConfigResolver.resolveLayers(this.layers)
+            : ComponentsConfigResolver.resolve(NuxtConfigLoader.load(this.nuxtProjectRoot), this.nuxtProjectRoot);
+
+        const isCovered = (dir: string) => dirs.some(configured =>
+            dir === configured.path ||
+            dir.startsWith(configured.path + path.sep) ||
+            configured.path.startsWith(dir + path.sep)
+        );
+
+        for (const discoveredDir of this.discoverComponentsDirs()) {
+            if (!isCovered(discoveredDir)) {
+                dirs.push({
+                    path: discoveredDir,
+                    prefix: '',
+                    pathPrefix: true,
+                    global: false,
+                    island: false,
+                    extensions: ComponentsConfigResolver.defaultExtensions
+                });
+            }
         }
 
+        return dirs;
+    }
+
+    /**
+     * Recherche récursivement les dossiers nommés `components` dans le projet
+     */
+    private discoverComponentsDirs(): string[] {
+        const dirs: string[] = [];
+
         const recurse = (dir: string) => {
             try {
                 const entries = fs.readdirSync(dir, { withFileTypes: true });
@@ -493,68 +947,765 @@ export class ComponentService {
         return dirs;
     }
 
-    private getNuxtComponentName(filePath: string, componentsDir: string): string {
-        let relPath = path.relative(componentsDir, filePath).replace(/\.vue$/, '');
+    /**
+     * Indique si un fichier est un composant auto-importé d'après la configuration
+     */
+    async isComponentFile(filePath: string): Promise<boolean> {
+        if (this.importMap && this.importMap.findComponentNames(filePath).length > 0) {
+            return true;
+        }
 
-        const parts = relPath.split(path.sep);
+        const dirs = await this.getCachedComponentDirs();
 
-        if (parts[parts.length - 1].toLowerCase() === 'index') {
-            parts.pop();
-        }
+        return dirs.some(dir => ComponentsConfigResolver.isComponentFile(filePath, dir));
+    }
 
-        const result = parts
-            .filter(Boolean)
-            .map(part =>
-                part
-                    .split('-')
-                    .map(w => w.charAt(0).toUpperCase() + w.slice(1))
-                    .join('')
-            )
-            .join('');
+    private getNuxtComponentName(filePath: string, componentsDir?: ResolvedComponentsDir): string | undefined {
+        // Le nom déclaré par Nuxt dans `.nuxt/components.d.ts` fait foi, hors variante `Lazy`
+        const generatedNames = this.importMap?.findComponentNames(filePath) || [];
 
-        return result;
+        if (generatedNames.length > 0) {
+            return generatedNames.find(name => !name.startsWith('Lazy')) ?? generatedNames[0];
+        }
+
+        return componentsDir ? NamingUtils.resolveComponentName(filePath, componentsDir) : undefined;
     }
 
-    async scanComponentsDirectory(dir: string): Promise<void> {
-        if (!fs.existsSync(dir)) {
-            return;
+    /**
+     * Regroupe les fichiers de composants indexés par nom Nuxt
+     */
+    private async getComponentFilesByName(): Promise<Map<string, string[]>> {
+        if (this.componentFilesByName) {
+            return this.componentFilesByName;
         }
 
-        const componentInfos: NuxtComponentInfo[] = [];
+        const dirs = await this.getCachedComponentDirs();
+        const filesByName = new Map<string, string[]>();
 
-        const files = await vscode.workspace.findFiles(
-            '**/*.vue',
-            '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**,**/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**}',
-        );
+        // Les déclarations générées listent déjà le fichier retenu par Nuxt pour chaque nom
+        const generatedComponents = this.importMap?.getImportMap()?.components;
 
-        for (const file of files) {
-            const componentName = path.basename(file.fsPath, '.vue');
+        if (generatedComponents && generatedComponents.size > 0) {
+            for (const entry of generatedComponents.values()) {
+                if (!entry.name.startsWith('Lazy') || !generatedComponents.has(entry.name.slice(4))) {
+                    filesByName.set(entry.name, [entry.filePath]);
+                }
+            }
 
-            componentInfos.push({
-                name: componentName,
-                path: file.fsPath,
-                isAutoImported: true
-            });
+            this.componentFilesByName = filesByName;
+
+            return filesByName;
         }
 
-        this.autoImportCache.set('components', componentInfos);
+        for (const file of this.projectIndex.getFiles()) {
+            const componentDir = dirs.find(dir => ComponentsConfigResolver.isComponentFile(file.path, dir));
+
+            if (!componentDir) {
+                continue;
+            }
+
+            const name = this.getNuxtComponentName(file.path, componentDir)!;
+
+            filesByName.set(name, [...(filesByName.get(name) || []), file.path]);
+        }
+
+        this.componentFilesByName = filesByName;
+
+        return filesByName;
     }
 
     /**
-     * Invalide le cache complètement (à utiliser avec parcimonie)
+     * Nom Nuxt d'une balise de composant (`user-card` → `UserCard`, `LazyUserCard` → `UserCard`)
      */
-    public invalidateAllCaches(): void {
-        this.referenceCache.clear();
+    async resolveTagComponentName(tag: string): Promise<string> {
+        const name = tag.includes('-') ? NamingUtils.pascalCase(tag) : tag;
 
-        this.componentDirsCache = null;
+        // Un composant réellement nommé `LazyLoader` garde son nom
+        if (/^Lazy[A-Z]/.test(name) && (await this.findComponentFiles(name)).length === 0) {
+            const eagerName = name.slice('Lazy'.length);
 
-        this.componentNameCache.clear();
+            if ((await this.findComponentFiles(eagerName)).length > 0) {
+                return eagerName;
+            }
+        }
+
+        return name;
     }
 
-    // S'assurer que les ressources sont libérées lorsqu'elles ne sont plus nécessaires
-    public dispose(): void {
-        if (this.fileWatcher) {
-            this.fileWatcher.dispose();
-        }
+    /**
+     * Fichier retenu par Nuxt pour un composant : celui du layer le plus prioritaire
+     */
+    private async resolveComponentFile(componentName: string): Promise<string | undefined> {
+        // `Chart.client.vue` et `Chart.server.vue` forment un seul composant : la variante client porte ses props
+        const filePaths = [...await this.findComponentFiles(componentName)]
+            .sort((a, b) => Number(NamingUtils.getComponentMode(a) === 'server') - Number(NamingUtils.getComponentMode(b) === 'server'));
+
+        return LayerResolver.resolveOverride(this.layers, filePaths);
+    }
+
+    /**
+     * Vérifie l'utilisation des composants dans le template d'un document
+     */
+    async provideDiagnostics(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+        await this.initialize();
+
+        let templateAst;
+
+        try {
+            templateAst = SfcParser.parse(document.getText(), document.fileName).template?.ast;
+        } catch (error) {
+            return [];
+        }
+
+        if (!templateAst) {
+            return [];
+        }
+
+        const elements: ElementNode[] = [];
+
+        TemplateParser.walkElements(templateAst, element => {
+            if (/^[A-Z]/.test(element.tag) || element.tag.includes('-')) {
+                elements.push(element);
+            }
+        });
+
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const element of elements) {
+            const componentName = await this.resolveTagComponentName(element.tag);
+            const componentFile = await this.resolveComponentFile(componentName);
+
+            if (!componentFile) {
+                continue;
+            }
+
+            const meta = await this.getComponentMeta(componentFile);
+
+            diagnostics.push(...this.checkComponentProps(document, element, componentName, meta));
+            diagnostics.push(...this.checkComponentListeners(document, element, componentName, meta));
+            diagnostics.push(...this.checkComponentSlots(document, element, componentName, meta));
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Props inconnues et props requises manquantes sur une balise de composant
+     */
+    private checkComponentProps(document: vscode.TextDocument, element: ElementNode, componentName: string, meta: ComponentMeta): vscode.Diagnostic[] {
+        // `v-bind="obj"` ou `:[name]` peuvent passer n'importe quelle prop
+        const hasSpread = TemplateParser.getDirectives(element, 'bind').some(directive => !TemplateParser.getDirectiveArgument(directive));
+
+        if (hasSpread) {
+            return [];
+        }
+
+        const diagnostics: vscode.Diagnostic[] = [];
+        const declaredProps = new Map(meta.props.map(prop => [NamingUtils.camelize(prop.name), prop]));
+        const passedProps = new Set<string>();
+
+        for (const { name, loc, bound } of this.getPassedProps(element)) {
+            const propName = NamingUtils.camelize(name);
+
+            passedProps.add(propName);
+
+            // Sans props déclarées, les attributs sont transmis à l'élément racine ;
+            // un attribut statique non déclaré (`placeholder`, `type`...) l'est toujours, seuls `:prop` et `v-model:prop` sont vérifiés
+            if (!bound || meta.props.length === 0 || meta.dynamicProps || declaredProps.has(propName)) {
+                continue;
+            }
+
+            if (FALLTHROUGH_ATTRIBUTES.includes(name) || name.startsWith('data-') || name.startsWith('aria-')) {
+                continue;
+            }
+
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(document.positionAt(loc.start.offset), document.positionAt(loc.end.offset)),
+                `Unknown prop "${propName}" on <${componentName}>`,
+                vscode.DiagnosticSeverity.Warning
+            );
+
+            diagnostic.source = 'Nuxt Intellisense';
+
+            diagnostics.push(diagnostic);
+        }
+
+        const tagStart = element.loc.start.offset + 1;
+        const tagRange = new vscode.Range(document.positionAt(tagStart), document.positionAt(tagStart + element.tag.length));
+
+        for (const [propName, prop] of declaredProps) {
+            if (!prop.required || prop.default !== undefined || passedProps.has(propName)) {
+                continue;
+            }
+
+            const diagnostic = new vscode.Diagnostic(
+                tagRange,
+                `Missing required prop "${propName}" on <${componentName}>`,
+                vscode.DiagnosticSeverity.Warning
+            );
+
+            diagnostic.source = 'Nuxt Intellisense';
+
+            diagnostics.push(diagnostic);
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Écouteurs d'événements que le composant n'émet jamais
+     */
+    private checkComponentListeners(document: vscode.TextDocument, element: ElementNode, componentName: string, meta: ComponentMeta): vscode.Diagnostic[] {
+        // Sans `defineEmits`, les écouteurs sont transmis à l'élément racine
+        if (meta.emits.length === 0 || meta.dynamicEmits) {
+            return [];
+        }
+
+        const declaredEvents = new Set(meta.emits.map(name => NamingUtils.camelize(name)));
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const directive of TemplateParser.getDirectives(element, 'on')) {
+            const eventName = TemplateParser.getDirectiveArgument(directive);
+
+            // `v-on="listeners"` et `@[event]` ne sont pas vérifiables, `@vue:mounted` est un hook du vnode
+            if (!eventName || eventName.startsWith('vue:') || declaredEvents.has(NamingUtils.camelize(eventName)) || NATIVE_EVENTS.has(eventName.toLowerCase())) {
+                continue;
+            }
+
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(document.positionAt(directive.loc.start.offset), document.positionAt(directive.loc.end.offset)),
+                `<${componentName}> never emits "${eventName}"`,
+                vscode.DiagnosticSeverity.Warning
+            );
+
+            diagnostic.source = 'Nuxt Intellisense';
+
+            diagnostics.push(diagnostic);
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Slots remplis par le parent mais jamais déclarés par le composant
+     */
+    private checkComponentSlots(document: vscode.TextDocument, element: ElementNode, componentName: string, meta: ComponentMeta): vscode.Diagnostic[] {
+        // Sans `<slot>` ni `defineSlots` (fonction de rendu, composant externe...), les slots ne sont pas connus
+        if (meta.slots.length === 0 || meta.dynamicSlots) {
+            return [];
+        }
+
+        const diagnostics: vscode.Diagnostic[] = [];
+        const declaredSlots = new Set(meta.slots.map(slot => NamingUtils.camelize(slot)));
+
+        for (const { name, loc } of TemplateParser.getSlotFills(element)) {
+            if (declaredSlots.has(NamingUtils.camelize(name))) {
+                continue;
+            }
+
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(document.positionAt(loc.start.offset), document.positionAt(loc.end.offset)),
+                `<${componentName}> has no slot "${name}"`,
+                vscode.DiagnosticSeverity.Warning
+            );
+
+            diagnostic.source = 'Nuxt Intellisense';
+
+            diagnostics.push(diagnostic);
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Composants du projet sans aucune référence : ni balise, ni rendu dynamique, ni import explicite
+     */
+    async findUnusedComponents(): Promise<{ name: string, filePath: string }[]> {
+        await this.initialize();
+
+        const unused: { name: string, filePath: string }[] = [];
+
+        for (const [name, filePaths] of await this.getComponentFilesByName()) {
+            // Les composants des modules et des layers installés ne relèvent pas du projet
+            const projectFiles = filePaths.filter(filePath =>
+                !filePath.includes(`${path.sep}node_modules${path.sep}`) && !!this.projectIndex.getFile(filePath)
+            );
+
+            if (projectFiles.length === 0 || (await this.findComponentReferences(name)).length > 0) {
+                continue;
+            }
+
+            for (const filePath of projectFiles) {
+                if (!await this.isImportedExplicitly(filePath, name)) {
+                    unused.push({ name, filePath });
+                }
+            }
+        }
+
+        return unused.sort((a, b) => a.filePath.localeCompare(b.filePath));
+    }
+
+    /**
+     * Indique si un composant est importé explicitement (`import UserCard from '~/components/UserCard.vue'`,
+     * `import { UserCard } from '#components'`)
+     */
+    private async isImportedExplicitly(filePath: string, componentName: string): Promise<boolean> {
+        if ((await this.findPathImports(filePath)).length > 0) {
+            return true;
+        }
+
+        for (const candidate of this.projectIndex.getFilesWithIdentifier(componentName)) {
+            const content = await this.projectIndex.readContent(candidate.path);
+
+            if (content !== null && this.findComponentsImportSpecifiers(content).some(specifier =>
+                specifier.name === componentName || specifier.name === `Lazy${componentName}`
+            )) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Noms importés depuis `#components`, avec leur position dans le fichier
+     */
+    private findComponentsImportSpecifiers(content: string): { name: string, offset: number, aliased: boolean }[] {
+        const specifiers: { name: string, offset: number, aliased: boolean }[] = [];
+        const importRegex = /import\s*\{([^}]*)\}\s*from\s*['"]#components['"]/g;
+
+        let match: RegExpExecArray | null;
+
+        while ((match = importRegex.exec(content))) {
+            const listOffset = match.index + match[0].indexOf('{') + 1;
+            const specifierRegex = /([\w$]+)(\s+as\s+[\w$]+)?/g;
+
+            let specifierMatch: RegExpExecArray | null;
+
+            while ((specifierMatch = specifierRegex.exec(match[1]))) {
+                specifiers.push({ name: specifierMatch[1], offset: listOffset + specifierMatch.index, aliased: !!specifierMatch[2] });
+            }
+        }
+
+        return specifiers;
+    }
+
+    /**
+     * Imports d'un fichier par son chemin (relatif ou alias `~`, `@`, `~~`, `@@`), dans tout le projet
+     */
+    private async findPathImports(filePath: string): Promise<{ importerPath: string, content: string, offset: number, specifier: string, withExtension: boolean }[]> {
+        const fileNameParts = path.basename(filePath, path.extname(filePath)).split(/[^\w$]+/).filter(Boolean);
+        const imports: { importerPath: string, content: string, offset: number, specifier: string, withExtension: boolean }[] = [];
+
+        for (const candidate of this.projectIndex.getFilesWithIdentifier(fileNameParts)) {
+            if (candidate.path === filePath) {
+                continue;
+            }
+
+            const content = await this.projectIndex.readContent(candidate.path);
+
+            if (content === null) {
+                continue;
+            }
+
+            const layer = LayerResolver.findLayer(this.layers, candidate.path);
+            const importRegex = /(?:\bfrom\s*|\bimport\s*\(?\s*)(['"])([^'"]+)\1/g;
+
+            let match: RegExpExecArray | null;
+
+            while ((match = importRegex.exec(content))) {
+                const specifier = match[2];
+
+                // Chemins relatifs et alias du projet seulement, pas les paquets (`@scope/pkg`)
+                if (!/^(\.|~|@)/.test(specifier) || /^@[\w-]+\//.test(specifier)) {
+                    continue;
+                }
+
+                const resolved = specifier.startsWith('.')
+                    ? path.resolve(path.dirname(candidate.path), specifier)
+                    : NuxtConfigLoader.resolveAlias(specifier, layer?.rootDir ?? this.nuxtProjectRoot, layer?.srcDir ?? this.nuxtProjectRoot);
+
+                if (resolved === filePath || resolved === filePath.slice(0, -path.extname(filePath).length)) {
+                    imports.push({
+                        importerPath: candidate.path,
+                        content,
+                        offset: match.index + match[0].length - specifier.length - 1,
+                        specifier,
+                        withExtension: resolved === filePath
+                    });
+                }
+            }
+        }
+
+        return imports;
+    }
+
+    /**
+     * Nom Nuxt que porte (ou porterait) un fichier d'après le dossier de composants qui le contient
+     */
+    async resolveComponentNameAt(filePath: string): Promise<string | undefined> {
+        const componentDir = (await this.getCachedComponentDirs()).find(dir => ComponentsConfigResolver.isComponentFile(filePath, dir));
+
+        return componentDir ? this.getNuxtComponentName(filePath, componentDir) : undefined;
+    }
+
+    /**
+     * Chemin à donner à un composant pour qu'il porte un nouveau nom
+     * (`UserCard` → `UserProfile` : `components/user/Card.vue` → `components/user/Profile.vue`)
+     */
+    async getRenamedComponentPath(filePath: string, newName: string): Promise<string> {
+        const componentDir = (await this.getCachedComponentDirs()).find(dir => ComponentsConfigResolver.isComponentFile(filePath, dir));
+        const oldName = this.getNuxtComponentName(filePath, componentDir);
+
+        if (!componentDir || !oldName) {
+            throw new Error(`${path.basename(filePath)} is not an auto-imported component`);
+        }
+
+        const extension = path.extname(filePath);
+        const baseName = path.basename(filePath, extension);
+        // `.client`, `.server`, `.global` et `.island` sont conservés
+        const suffix = baseName.match(/(\.(client|server))?(\.global|\.island)*$/)?.[0] ?? '';
+        const fileName = NamingUtils.pascalCase(baseName.slice(0, baseName.length - suffix.length));
+
+        // Le préfixe vient du dossier et des options `prefix` / `pathPrefix` : il reste hors du nom de fichier
+        const prefix = oldName.endsWith(fileName) ? oldName.slice(0, oldName.length - fileName.length) : '';
+        let newFileName = prefix && newName.startsWith(prefix) && newName.length > prefix.length
+            ? newName.slice(prefix.length)
+            : newName;
+
+        if (/^[a-z]/.test(baseName)) {
+            newFileName = PathUtils.pascalToKebabCase(newFileName);
+        }
+
+        const newFilePath = path.join(path.dirname(filePath), `${newFileName}${suffix}${extension}`);
+
+        if (NamingUtils.resolveComponentName(newFilePath, componentDir) !== newName) {
+            throw new Error(`No file name in ${path.relative(this.nuxtProjectRoot, path.dirname(filePath)) || '.'} gives the component name ${newName}`);
+        }
+
+        return newFilePath;
+    }
+
+    /**
+     * Ajoute à `edit` la mise à jour des usages d'un composant renommé ou déplacé : balises (PascalCase,
+     * kebab-case, `Lazy`), `<NuxtIsland name>`, chaînes de `resolveComponent()` et `:is`, imports `#components` et imports par chemin
+     */
+    async addComponentRenameEdits(edit: vscode.WorkspaceEdit, oldFilePath: string, newFilePath: string): Promise<void> {
+        await this.initialize();
+
+        const oldName = await this.resolveComponentNameAt(oldFilePath);
+        const newName = await this.resolveComponentNameAt(newFilePath);
+
+        if (!oldName) {
+            return;
+        }
+
+        // Les fichiers d'un même composant (variantes `.client` / `.server`, layers) partagent ses usages dans l'édition
+        const replace = (filePath: string, range: vscode.Range, newText: string) => {
+            const uri = vscode.Uri.file(filePath);
+
+            if (!edit.get(uri).some(existing => existing.range.isEqual(range))) {
+                edit.replace(uri, range, newText);
+            }
+        };
+
+        const replaceAt = (filePath: string, content: string, offset: number, length: number, newText: string) => {
+            const start = TextUtils.indexToPosition(content, offset);
+            const end = TextUtils.indexToPosition(content, offset + length);
+
+            replace(filePath, new vscode.Range(start.line, start.character, end.line, end.character), newText);
+        };
+
+        if (newName && newName !== oldName) {
+            const newTagNames = this.getComponentTagNames(newName);
+            const renames = new Map(this.getComponentTagNames(oldName).map((tagName, index) => [tagName, newTagNames[index]]));
+            const islandTags = ['NuxtIsland', 'nuxt-island'];
+
+            for (const filePath of this.getComponentUsageFiles([...renames.keys(), ...islandTags])) {
+                const content = await this.projectIndex.readContent(filePath);
+
+                if (content === null) {
+                    continue;
+                }
+
+                let templateAst;
+
+                try {
+                    templateAst = SfcParser.parse(content, filePath).template?.ast;
+                } catch (error) {
+                    continue;
+                }
+
+                if (!templateAst) {
+                    continue;
+                }
+
+                TemplateParser.walkElements(templateAst, element => {
+                    const newTag = renames.get(element.tag);
+
+                    if (newTag) {
+                        replaceAt(filePath, content, element.loc.start.offset + 1, element.tag.length, newTag);
+
+                        const closeStart = content.lastIndexOf(`</${element.tag}`, element.loc.end.offset);
+
+                        if (closeStart >= TemplateParser.getStartTagEnd(element, content)) {
+                            replaceAt(filePath, content, closeStart + 2, element.tag.length, newTag);
+                        }
+                    }
+
+                    const nameAttribute = islandTags.includes(element.tag)
+                        ? TemplateParser.getAttributes(element).find(attribute => attribute.name === 'name' && attribute.value?.content === oldName)
+                        : undefined;
+
+                    if (nameAttribute) {
+                        replaceAt(filePath, content, nameAttribute.loc.start.offset + nameAttribute.loc.source.indexOf(oldName, 'name'.length), oldName.length, newName);
+                    }
+                });
+            }
+
+            // Seuls `resolveComponent('UserCard')` et les littéraux de `:is` : une table de noms peut servir à autre chose
+            const renamedStrings = new Map<string, Set<string>>();
+
+            for (const { file, usage } of this.projectIndex.getUsages('dynamicComponent', [...renames.keys()])) {
+                if (!renamedStrings.has(file.path)) {
+                    const content = await this.projectIndex.readContent(file.path);
+
+                    renamedStrings.set(file.path, content === null ? new Set() : this.findRenamableComponentStrings(file.path, content));
+                }
+
+                if (renamedStrings.get(file.path)!.has(`${usage.line}:${usage.character}`)) {
+                    replace(file.path, new vscode.Range(usage.line, usage.character, usage.line, usage.character + usage.name.length), renames.get(usage.name)!);
+                }
+            }
+
+            // `import { UserCard } from '#components'` → `import { UserProfile as UserCard } from '#components'`
+            for (const candidate of this.projectIndex.getFilesWithIdentifier([oldName, `Lazy${oldName}`])) {
+                const content = await this.projectIndex.readContent(candidate.path);
+
+                for (const specifier of content !== null ? this.findComponentsImportSpecifiers(content) : []) {
+                    const newSpecifier = renames.get(specifier.name);
+
+                    if (newSpecifier && content !== null) {
+                        replaceAt(candidate.path, content, specifier.offset, specifier.name.length, specifier.aliased ? newSpecifier : `${newSpecifier} as ${specifier.name}`);
+                    }
+                }
+            }
+        }
+
+        if (newFilePath === oldFilePath) {
+            return;
+        }
+
+        for (const pathImport of await this.findPathImports(oldFilePath)) {
+            const target = pathImport.withExtension ? newFilePath : newFilePath.slice(0, -path.extname(newFilePath).length);
+            let specifier: string;
+
+            if (pathImport.specifier.startsWith('.')) {
+                specifier = path.relative(path.dirname(pathImport.importerPath), target).split(path.sep).join('/');
+                specifier = specifier.startsWith('.') ? specifier : `./${specifier}`;
+            } else {
+                const alias = pathImport.specifier.split('/')[0];
+                const layer = LayerResolver.findLayer(this.layers, pathImport.importerPath);
+                const aliasTarget = NuxtConfigLoader.resolveAlias(alias, layer?.rootDir ?? this.nuxtProjectRoot, layer?.srcDir ?? this.nuxtProjectRoot);
+
+                specifier = `${alias}/${path.relative(aliasTarget, target).split(path.sep).join('/')}`;
+            }
+
+            replaceAt(pathImport.importerPath, pathImport.content, pathImport.offset, pathImport.specifier.length, specifier);
+        }
+    }
+
+    /**
+     * Positions (`ligne:colonne`) des chaînes passées directement à `resolveComponent()` ou écrites dans une expression `:is`
+     */
+    private findRenamableComponentStrings(filePath: string, content: string): Set<string> {
+        const positions = new Set<string>();
+
+        const add = (node: ts.Node, sourceFile: ts.SourceFile, offset: number) => {
+            if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+                const { line, character } = TextUtils.indexToPosition(content, offset + node.getStart(sourceFile) + 1);
+
+                positions.add(`${line}:${character}`);
+            }
+        };
+
+        let sfc;
+
+        try {
+            sfc = SfcParser.parse(content, filePath);
+        } catch (error) {
+            return positions;
+        }
+
+        for (const block of SfcParser.getScriptBlocks(sfc)) {
+            for (const call of ScriptParser.findCalls(block.ast, 'resolveComponent')) {
+                if (call.arguments[0]) {
+                    add(ScriptParser.unwrap(call.arguments[0]), block.ast, block.offset);
+                }
+            }
+        }
+
+        if (sfc.template?.ast) {
+            TemplateParser.walkElements(sfc.template.ast, element => {
+                for (const directive of TemplateParser.getDirectives(element, 'bind')) {
+                    if (TemplateParser.getDirectiveArgument(directive) === 'is' && directive.exp) {
+                        const expression = ScriptParser.parse(directive.exp.loc.source);
+
+                        ScriptParser.walk(expression, node => add(node, expression, directive.exp!.loc.start.offset));
+                    }
+                }
+            });
+        }
+
+        return positions;
+    }
+
+    /**
+     * Fichiers de chaque composant du projet et de ses modules, par nom Nuxt
+     */
+    async getComponentFiles(): Promise<Map<string, string[]>> {
+        await this.initialize();
+
+        return this.getComponentFilesByName();
+    }
+
+    /**
+     * Fichiers définissant un composant d'après son nom Nuxt, tous layers confondus
+     */
+    async findComponentFiles(componentName: string): Promise<string[]> {
+        await this.initialize();
+
+        return (await this.getComponentFilesByName()).get(componentName) || [];
+    }
+
+    /**
+     * Retourne le fichier d'un layer plus prioritaire qui définit le même composant
+     */
+    private async findOverridingComponent(filePath: string, componentName: string): Promise<string | undefined> {
+        if (this.layers.length < 2) {
+            return undefined;
+        }
+
+        const filePaths = (await this.getComponentFilesByName()).get(componentName) || [];
+
+        return LayerResolver.findOverridingFile(this.layers, filePath, filePaths);
+    }
+
+    /**
+     * Props, emits, slots, models et membres exposés d'un composant, recalculés quand le fichier change
+     */
+    async getComponentMeta(filePath: string): Promise<ComponentMeta> {
+        const mtime = this.projectIndex.getFile(filePath)?.mtime ?? 0;
+        const cached = this.componentMetaCache.get(filePath);
+
+        if (cached && cached.mtime === mtime) {
+            return cached.meta;
+        }
+
+        const content = await this.projectIndex.readContent(filePath);
+
+        const meta = content === null
+            ? { props: [], emits: [], slots: [], models: [], exposed: [], dynamicProps: false, dynamicEmits: false, dynamicSlots: false }
+            : ComponentParser.parse(content, filePath);
+
+        this.componentMetaCache.set(filePath, { meta, mtime });
+
+        return meta;
+    }
+
+    /**
+     * Composants auto-importés du projet, scannés à la première demande
+     */
+    async getAutoImportedComponents(): Promise<NuxtComponentInfo[]> {
+        await this.initialize();
+
+        if (!this.autoImportCache.has('components')) {
+            for (const dir of await this.getCachedComponentDirs()) {
+                await this.scanComponentsDirectory(dir.path);
+            }
+        }
+
+        return this.autoImportCache.get('components') || [];
+    }
+
+    /**
+     * Enregistre les composants d'un dossier de composants sous leur nom Nuxt, en remplaçant ceux d'un scan précédent
+     */
+    async scanComponentsDirectory(dir: string): Promise<void> {
+        if (!fs.existsSync(dir)) {
+            return;
+        }
+
+        const componentDirs = await this.getCachedComponentDirs();
+        const componentDir = componentDirs.find(candidate => candidate.path === dir);
+
+        if (!componentDir) {
+            return;
+        }
+
+        const componentInfos = (this.autoImportCache.get('components') || []).filter(info => info.componentsDir !== dir);
+
+        for (const file of this.projectIndex.getFiles({ withinDir: dir })) {
+            // Le dossier le plus spécifique l'emporte (`components/global` dans `components`)
+            if (componentDirs.find(candidate => ComponentsConfigResolver.isComponentFile(file.path, candidate)) !== componentDir) {
+                continue;
+            }
+
+            componentInfos.push({
+                name: this.getNuxtComponentName(file.path, componentDir)!,
+                path: file.path,
+                isAutoImported: true,
+                layer: LayerResolver.findLayer(this.layers, file.path)?.rootDir ?? this.nuxtProjectRoot,
+                componentsDir: dir,
+                meta: await this.getComponentMeta(file.path)
+            });
+        }
+
+        for (const info of componentInfos) {
+            const collisions = componentInfos
+                .filter(other => other !== info && other.name === info.name && other.layer === info.layer && !this.isClientServerPair(info.path, other.path))
+                .map(other => other.path);
+
+            info.collisions = collisions.length > 0 ? collisions : undefined;
+        }
+
+        this.autoImportCache.set('components', componentInfos);
+    }
+
+    /**
+     * `Chart.client.vue` et `Chart.server.vue` forment un seul composant
+     */
+    private isClientServerPair(filePath: string, otherPath: string): boolean {
+        const modes = [NamingUtils.getComponentMode(filePath), NamingUtils.getComponentMode(otherPath)];
+
+        return modes.includes('client') && modes.includes('server');
+    }
+
+    /**
+     * Invalide le cache complètement (à utiliser avec parcimonie)
+     */
+    public invalidateAllCaches(): void {
+        this.referenceCache.clear();
+
+        this.componentDirsCache = null;
+
+        this.componentNameCache.clear();
+
+        this.componentFilesByName = null;
+
+        this.componentMetaCache.clear();
+
+        this.tagAttributesCache.clear();
+
+        this.autoImportCache.delete('components');
+    }
+
+    // S'assurer que les ressources sont libérées lorsqu'elles ne sont plus nécessaires
+    public dispose(): void {
+        if (this.indexSubscription) {
+            this.indexSubscription.dispose();
+        }
+
+        this.importMapSubscription?.dispose();
     }
 }
\ No newline at end of file
@@ -1,14 +1,21 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as ts from 'typescript';
 import { TextUtils } from '../utils/textUtils';
-import type { NuxtComponentInfo } from '../types';
+import { ProjectIndex } from '../index/ProjectIndex';
+import { ScriptParser, FunctionLike } from '../parsers/ScriptParser';
+import { ImportMapLoader } from '../project/ImportMapLoader';
+import type { ComposableMember, ComposableSummary, NuxtComponentInfo } from '../types';
 
 interface ReferenceCache {
     references: vscode.Location[];
     timestamp: number;
 }
 
+// Dossiers dans lesquels on ne cherche pas d'utilisations de composables
+const COMPOSABLE_SEARCH_EXCLUDED_DIRS = ['utils', 'lib', 'helpers', 'constants', 'shared', 'public', 'config', 'assets'];
+
 interface ExposedItem {
     name: string;
     position: vscode.Position;
@@ -19,38 +26,19 @@ interface ExposedItem {
 export class ComposableService {
     private referenceCache: Map<string, ReferenceCache> = new Map();
     private referenceCacheTTL: number = 300000; // 5 minutes comme fallback
-    private fileWatcher: vscode.FileSystemWatcher | undefined;
+    private indexSubscription: vscode.Disposable | undefined;
     private exposedItemsCache: Map<string, ExposedItem[]> = new Map();
 
-    constructor(private autoImportCache: Map<string, NuxtComponentInfo[]>) {
-        this.setupFileWatcher();
-    }
-
-    private setupFileWatcher() {
-        // Surveiller les changements dans les fichiers Vue, TS et JS
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher(
-            '**/*.{vue,ts,js}',
-            false, // Ne pas ignorer les créations
-            false, // Ne pas ignorer les changements
-            false  // Ne pas ignorer les suppressions
-        );
-
-        // Lors d'un changement de fichier, invalider le cache
-        this.fileWatcher.onDidChange(() => {
-            this.invalidateReferenceCache();
-            this.exposedItemsCache.clear();
-        });
-        this.fileWatcher.onDidCreate(() => {
+    constructor(
+        private autoImportCache: Map<string, NuxtComponentInfo[]>,
+        private projectIndex: ProjectIndex,
+        private importMap?: ImportMapLoader
+    ) {
+        // Lors d'un changement de fichier dans l'index, invalider le cache
+        this.indexSubscription = this.projectIndex.onDidUpdate(() => {
             this.invalidateReferenceCache();
             this.exposedItemsCache.clear();
         });
-        this.fileWatcher.onDidDelete(() => {
-            this.invalidateReferenceCache();
-            this.exposedItemsCache.clear();
-        });
-
-        // S'assurer que le watcher est disposé lorsqu'il n'est plus nécessaire
-        vscode.Disposable.from(this.fileWatcher);
     }
 
     async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
@@ -95,48 +83,32 @@ export class ComposableService {
         const text = document.getText();
         const items: ExposedItem[] = [];
 
-        // 1. Trouver les composables exportés
-        const composableRegex = /export\s+(default\s+)?(const|function|async\s+function)\s+(\w+)/g;
-
-        let match: RegExpExecArray | null;
+        const sourceFile = ScriptParser.parse(text, document.fileName);
 
-        while ((match = composableRegex.exec(text))) {
-            const composableName = match[3];
-            const pos = document.positionAt(match.index);
+        // 1. Trouver les composables exportés
+        for (const composable of ScriptParser.findExportedFunctions(sourceFile)) {
+            const composableName = composable.name;
 
             // Ajouter le composable lui-même
             items.push({
                 name: composableName,
-                position: new vscode.Position(pos.line, match[0].indexOf(composableName)),
+                position: document.positionAt(composable.nameNode.getStart(sourceFile)),
                 type: 'composable'
             });
 
-            // 2. Analyser le bloc return pour trouver les variables et méthodes exposées
-            // Trouver la position du return dans cette fonction
-            const functionText = this.extractFunctionText(text.substring(match.index));
-            if (!functionText) continue;
-
-            const returnStatementMatch = /return\s*{([^}]*)}/s.exec(functionText);
-            if (!returnStatementMatch) continue;
+            // 2. Analyser l'objet retourné pour trouver les variables et méthodes exposées
+            const returnedObject = ScriptParser.findReturnedObject(composable.node);
+            if (!returnedObject) continue;
 
-            const returnBlockText = returnStatementMatch[1];
-
-            // Extraire les noms des variables/méthodes retournées
-            const returnedItems = this.parseReturnItems(returnBlockText);
-
-            for (const itemName of returnedItems) {
+            for (const itemName of this.getReturnedItems(returnedObject)) {
                 // Trouver la déclaration de cette variable/méthode dans le corps de la fonction
-                const declarationInfo = this.findDeclarationInFunction(functionText, itemName);
-
-                if (declarationInfo) {
-                    const { position: relativePosition, type } = declarationInfo;
-                    const declarationIndex = match.index + relativePosition;
-                    const itemPosition = document.positionAt(declarationIndex);
+                const declaration = ScriptParser.findDeclaration(composable.node, itemName);
 
+                if (declaration) {
                     items.push({
                         name: itemName,
-                        position: itemPosition,
-                        type: type,
+                        position: document.positionAt(declaration.getStart(sourceFile)),
+                        type: this.getDeclarationType(declaration),
                         composableName
                     });
                 }
@@ -147,77 +119,141 @@ export class ComposableService {
         return items;
     }
 
-    private parseReturnItems(returnBlockText: string): string[] {
-        // Nettoyage du texte pour faciliter l'analyse
-        const cleanedText = returnBlockText.trim().replace(/\s+/g, ' ');
+    /**
+     * Extrait les noms des variables/méthodes retournées (`{ error, submit, errorValue: error }`)
+     */
+    private getReturnedItems(returnedObject: ts.ObjectLiteralExpression): string[] {
         const items: string[] = [];
 
-        // Séparation par virgules et extraction des noms
-        const parts = cleanedText.split(',').map(part => part.trim());
-
-        for (const part of parts) {
+        for (const property of returnedObject.properties) {
             // Cas simple: juste le nom (error, submit)
-            const simpleMatch = /^(\w+)$/.exec(part);
-            if (simpleMatch) {
-                items.push(simpleMatch[1]);
+            if (ts.isShorthandPropertyAssignment(property)) {
+                items.push(property.name.text);
                 continue;
             }
 
-            // Cas avec renommage (errorValue: error)
-            const renameMatch = /^(\w+):\s*(\w+)$/.exec(part);
-            if (renameMatch) {
-                items.push(renameMatch[2]); // On prend le nom original (après les :)
+            // Cas avec renommage (errorValue: error), on prend le nom original
+            if (ts.isPropertyAssignment(property)) {
+                const initializer = ScriptParser.unwrap(property.initializer);
+
+                if (ts.isIdentifier(initializer)) {
+                    items.push(initializer.text);
+                }
             }
         }
 
         return items;
     }
 
-    private findDeclarationInFunction(functionText: string, itemName: string): { position: number, type: 'variable' | 'method' } | null {
-        // Patterns de déclaration pour différents types
-        const patterns = [
-            // Variables
-            { regex: new RegExp(`\\bconst\\s+${itemName}\\s*=`, 'g'), type: 'variable' },
-            { regex: new RegExp(`\\blet\\s+${itemName}\\s*=`, 'g'), type: 'variable' },
-            { regex: new RegExp(`\\bvar\\s+${itemName}\\s*=`, 'g'), type: 'variable' },
-
-            // Fonctions classiques
-            { regex: new RegExp(`\\bfunction\\s+${itemName}\\s*\\(`, 'g'), type: 'method' },
-            { regex: new RegExp(`\\basync\\s+function\\s+${itemName}\\s*\\(`, 'g'), type: 'method' },
-
-            // Fonctions fléchées
-            { regex: new RegExp(`\\bconst\\s+${itemName}\\s*=\\s*\\([^)]*\\)\\s*=>`, 'g'), type: 'method' },
-            { regex: new RegExp(`\\bconst\\s+${itemName}\\s*=\\s*async\\s*\\([^)]*\\)\\s*=>`, 'g'), type: 'method' }
-        ];
+    private getDeclarationType(declaration: ts.VariableDeclaration | ts.FunctionDeclaration): 'variable' | 'method' {
+        if (ts.isFunctionDeclaration(declaration)) {
+            return 'method';
+        }
 
-        for (const { regex, type } of patterns) {
-            regex.lastIndex = 0;
-            const match = regex.exec(functionText);
-            if (match) {
-                return { position: match.index, type: type as 'variable' | 'method' };
+        const initializer = declaration.initializer && ScriptParser.unwrap(declaration.initializer);
+
+        return ScriptParser.isFunctionLike(initializer) ? 'method' : 'variable';
+    }
+
+    /**
+     * Signature d'un composable exporté par un fichier et membres de l'objet qu'il retourne
+     */
+    async getComposableSummary(filePath: string, composableName: string): Promise<ComposableSummary | undefined> {
+        const content = await this.projectIndex.readContent(filePath);
+
+        if (content === null) {
+            return undefined;
+        }
+
+        const sourceFile = ScriptParser.parse(content, filePath);
+        const composable = ScriptParser.findExportedFunctions(sourceFile).find(fn => fn.name === composableName);
+
+        if (!composable) {
+            return undefined;
+        }
+
+        const members: ComposableMember[] = [];
+        const returnedObject = ScriptParser.findReturnedObject(composable.node);
+
+        for (const property of returnedObject?.properties || []) {
+            const name = ScriptParser.getPropertyName(property.name);
+
+            if (!name) {
+                continue;
+            }
+
+            // `{ items }` et `{ list: items }` renvoient à une déclaration du composable, `{ add: () => {} }` est défini sur place
+            let declaration: ts.Node | undefined = property;
+
+            if (ts.isShorthandPropertyAssignment(property)) {
+                declaration = ScriptParser.findDeclaration(composable.node, property.name.text);
+            } else if (ts.isPropertyAssignment(property)) {
+                const initializer = ScriptParser.unwrap(property.initializer);
+
+                declaration = ts.isIdentifier(initializer)
+                    ? ScriptParser.findDeclaration(composable.node, initializer.text)
+                    : initializer;
             }
+
+            members.push({ name, ...this.getMemberKind(declaration, sourceFile) });
         }
 
-        return null;
+        return {
+            name: composableName,
+            signature: `${composableName}${this.getFunctionSignature(composable.node, sourceFile)}`,
+            members
+        };
     }
 
-    private extractFunctionText(text: string): string | null {
-        let openBraces = 0;
-        let started = false;
-
-        for (let i = 0; i < text.length; i++) {
-            if (text[i] === '{') {
-                started = true;
-                openBraces++;
-            } else if (text[i] === '}') {
-                openBraces--;
-                if (started && openBraces === 0) {
-                    return text.substring(0, i + 1);
-                }
-            }
+    /**
+     * Nature d'un membre retourné d'après sa déclaration (`ref()`, `computed()`, fonction...)
+     */
+    private getMemberKind(node: ts.Node | undefined, sourceFile: ts.SourceFile): Omit<ComposableMember, 'name'> {
+        if (!node) {
+            return { kind: 'value' };
+        }
+
+        if (ScriptParser.isFunctionLike(node)) {
+            return { kind: 'function', type: this.getFunctionSignature(node, sourceFile) };
+        }
+
+        if (ts.isVariableDeclaration(node)) {
+            const declared = node.type?.getText(sourceFile);
+            const member = node.initializer ? this.getMemberKind(ScriptParser.unwrap(node.initializer), sourceFile) : { kind: 'value' as const };
+
+            return { kind: member.kind, type: declared ?? member.type };
+        }
+
+        if (!ts.isCallExpression(node)) {
+            return { kind: 'value' };
         }
 
-        return null;
+        const typeArgument = node.typeArguments?.[0]?.getText(sourceFile);
+
+        switch (ScriptParser.getCalleeName(node)) {
+            case 'ref':
+            case 'shallowRef':
+            case 'toRef':
+            case 'useState':
+            case 'useCookie':
+                return { kind: 'ref', type: typeArgument && `Ref<${typeArgument}>` };
+            case 'computed':
+                return { kind: 'computed', type: typeArgument && `ComputedRef<${typeArgument}>` };
+            case 'reactive':
+            case 'shallowReactive':
+                return { kind: 'reactive', type: typeArgument };
+            default:
+                return { kind: 'value' };
+        }
+    }
+
+    /**
+     * `(id: string, options?: Options): Promise<User>`, sans le corps de la fonction
+     */
+    private getFunctionSignature(fn: FunctionLike, sourceFile: ts.SourceFile): string {
+        const parameters = fn.parameters.map(parameter => parameter.getText(sourceFile)).join(', ');
+
+        return `(${parameters})${fn.type ? `: ${fn.type.getText(sourceFile)}` : ''}`;
     }
 
     private async getCachedReferences(
@@ -250,34 +286,33 @@ export class ComposableService {
 
             if (item.type === 'composable') {
                 // Utiliser l'approche existante pour les composables
-                return this.findAllReferences(document, item.name, item.position);
+                return this.findComposableReferences(document, item.name, item.position);
             } else {
                 // Pour les variables et méthodes exposées par un composable
-                const uris = await vscode.workspace.findFiles(
-                    '**/*.{vue,js,ts}',
-                    '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**, **/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**}'
-                );
+                const files = this.projectIndex.getFilesWithIdentifier(item.composableName || item.name, {
+                    excludeDirs: COMPOSABLE_SEARCH_EXCLUDED_DIRS
+                });
 
                 const batchSize = 30;
-                for (let i = 0; i < uris.length; i += batchSize) {
-                    const batch = uris.slice(i, i + batchSize);
-
-                    await Promise.all(batch.map(async (uri) => {
-                        try {
-                            // Ignorer le fichier source pour les items exposés
-                            if (uri.fsPath === document.uri.fsPath &&
-                                item.type !== 'composable') {
-                                return;
-                            }
-
-                            const content = fs.readFileSync(uri.fsPath, 'utf-8');
-
-                            // 1. Vérifier si le composable parent est utilisé
-                            if (item.composableName) {
-                                this.findItemReferencesInFile(content, uri, item, results);
-                            }
-                        } catch (error) {
-                            // Ignorer les erreurs de lecture de fichier
+                for (let i = 0; i < files.length; i += batchSize) {
+                    const batch = files.slice(i, i + batchSize);
+
+                    await Promise.all(batch.map(async (file) => {
+                        // Ignorer le fichier source pour les items exposés
+                        if (file.path === document.uri.fsPath &&
+                            item.type !== 'composable') {
+                            return;
+                        }
+
+                        const content = await this.projectIndex.readContent(file.path);
+
+                        if (content === null) {
+                            return;
+                        }
+
+                        // 1. Vérifier si le composable parent est utilisé
+                        if (item.composableName) {
+                            this.findItemReferencesInFile(content, vscode.Uri.file(file.path), item, results);
                         }
                     }));
                 }
@@ -419,7 +454,10 @@ export class ComposableService {
         }
     }
 
-    private async findAllReferences(document: vscode.TextDocument, name: string, position: vscode.Position): Promise<vscode.Location[]> {
+    /**
+     * Recherche les utilisations d'un composable à partir de sa définition
+     */
+    async findComposableReferences(document: vscode.TextDocument, name: string, position: vscode.Position): Promise<vscode.Location[]> {
         try {
             const results: vscode.Location[] = [];
 
@@ -439,47 +477,40 @@ export class ComposableService {
 
             // Effectuer une recherche basée sur les fichiers uniquement si le fournisseur de références intégré n'a pas trouvé suffisamment de résultats
             if (results.length < 5) {
-                const uris = await vscode.workspace.findFiles(
-                    '**/*.{vue,js,ts}',
-                    '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**, **/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**}'
-                );
-
-                const fileReadPromises = uris.map(async (uri) => {
-                    if (uri.fsPath === document.uri.fsPath) {
-                        return;
+                const files = this.projectIndex.getFilesWithIdentifier(name, {
+                    excludeDirs: COMPOSABLE_SEARCH_EXCLUDED_DIRS
+                });
+
+                for (const file of files) {
+                    if (file.path === document.uri.fsPath) {
+                        continue;
                     }
 
-                    try {
-                        const content = fs.readFileSync(uri.fsPath, 'utf-8');
-                        const usageRegex = new RegExp(`\\b(${name}\\s*\\(|${name}\\s*<)`, 'g');
-                        let match;
-
-                        while ((match = usageRegex.exec(content)) !== null) {
-                            const matchText = match[1];
-                            const index = match.index;
-
-                            const start = TextUtils.indexToPosition(content, index);
-                            const end = TextUtils.indexToPosition(content, index + matchText.length);
-
-                            results.push(new vscode.Location(
-                                uri,
-                                new vscode.Range(
-                                    new vscode.Position(start.line, start.character),
-                                    new vscode.Position(end.line, end.character)
-                                )
-                            ));
-                        }
-                    } catch (error) {
+                    const content = await this.projectIndex.readContent(file.path);
+
+                    if (content === null) {
+                        continue;
                     }
-                });
 
-                // Traiter les fichiers par lots pour éviter les problèmes de mémoire
-                const batchSize = 50;
+                    const uri = vscode.Uri.file(file.path);
+                    const usageRegex = new RegExp(`\\b(${name}\\s*\\(|${name}\\s*<)`, 'g');
+                    let match;
+
+                    while ((match = usageRegex.exec(content)) !== null) {
+                        const matchText = match[1];
+                        const index = match.index;
 
-                for (let i = 0; i < fileReadPromises.length; i += batchSize) {
-                    const batch = fileReadPromises.slice(i, i + batchSize);
+                        const start = TextUtils.indexToPosition(content, index);
+                        const end = TextUtils.indexToPosition(content, index + matchText.length);
 
-                    await Promise.all(batch);
+                        results.push(new vscode.Location(
+                            uri,
+                            new vscode.Range(
+                                new vscode.Position(start.line, start.character),
+                                new vscode.Position(end.line, end.character)
+                            )
+                        ));
+                    }
                 }
             }
 
@@ -496,34 +527,39 @@ export class ComposableService {
 
         const composableInfos: NuxtComponentInfo[] = [];
 
-        const files = await vscode.workspace.findFiles(
-            path.join(dir, '**/*.{ts,js}').replace(/\\/g, '/'),
-            '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**, **/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**}'
-        );
+        // Les déclarations générées par Nuxt font foi quand elles existent
+        const generatedImports = this.importMap?.getImportMap()?.imports;
 
-        for (const file of files) {
-            try {
-                const content = fs.readFileSync(file.fsPath, 'utf-8');
-
-                if (content.includes('defineStore')) {
-                    continue;
+        if (generatedImports && generatedImports.size > 0) {
+            for (const entry of generatedImports.values()) {
+                if (entry.filePath.startsWith(dir + path.sep)) {
+                    composableInfos.push({
+                        name: entry.name,
+                        path: entry.filePath,
+                        isAutoImported: true
+                    });
                 }
+            }
 
-                const exportRegex = /export\s+(default\s+)?(const|function|async\s+function)\s+(\w+)/g;
+            this.autoImportCache.set('composables', composableInfos);
 
-                let match: RegExpExecArray | null;
+            this.invalidateReferenceCache();
+            this.exposedItemsCache.clear();
 
-                while ((match = exportRegex.exec(content))) {
-                    const name = match[2];
+            return;
+        }
 
-                    composableInfos.push({
-                        name: name,
-                        path: file.fsPath,
-                        isAutoImported: true
-                    });
-                }
-            } catch (e) {
+        // Sinon, les exports des composables sont déjà extraits par l'index du projet
+        for (const { file, definition } of this.projectIndex.getDefinitions('composable')) {
+            if (!file.path.startsWith(dir + path.sep)) {
+                continue;
             }
+
+            composableInfos.push({
+                name: definition.name,
+                path: file.path,
+                isAutoImported: true
+            });
         }
 
         this.autoImportCache.set('composables', composableInfos);
@@ -540,8 +576,8 @@ export class ComposableService {
 
     // S'assurer que les ressources sont libérées lorsqu'elles ne sont plus nécessaires
     public dispose(): void {
-        if (this.fileWatcher) {
-            this.fileWatcher.dispose();
+        if (this.indexSubscription) {
+            this.indexSubscription.dispose();
         }
     }
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import { TextUtils } from '../utils/textUtils';
+import { ProjectIndex } from '../index/ProjectIndex';
+import { LayerResolver } from '../config/LayerResolver';
+import type { NuxtLayer } from '../types';
 import * as path from 'path';
 
 interface ReferenceCache {
@@ -11,25 +13,10 @@ interface ReferenceCache {
 export class LayoutService {
     private referenceCache: Map<string, ReferenceCache> = new Map();
     private referenceCacheTTL: number = 300000; // 5 minutes
-    private fileWatcher: vscode.FileSystemWatcher | undefined;
+    private indexSubscription: vscode.Disposable | undefined;
 
-    constructor() {
-        this.setupFileWatcher();
-    }
-
-    private setupFileWatcher() {
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher(
-            '**/*.{vue,js,ts}',
-            false, // Ne pas ignorer les créations
-            false, // Ne pas ignorer les changements
-            false  // Ne pas ignorer les suppressions
-        );
-
-        this.fileWatcher.onDidChange(() => this.invalidateReferenceCache());
-        this.fileWatcher.onDidCreate(() => this.invalidateReferenceCache());
-        this.fileWatcher.onDidDelete(() => this.invalidateReferenceCache());
-
-        vscode.Disposable.from(this.fileWatcher);
+    constructor(private projectIndex: ProjectIndex, private layers: NuxtLayer[] = []) {
+        this.indexSubscription = this.projectIndex.onDidUpdate(() => this.invalidateReferenceCache());
     }
 
     async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
@@ -50,7 +37,17 @@ export class LayoutService {
             const references = await this.getCachedReferences(cacheKey, layoutName);
             const referenceCount = references.length;
 
-            if (layoutName === 'default') {
+            const overridingPath = this.findOverridingLayout(document.uri.fsPath, layoutName);
+
+            if (overridingPath) {
+                lenses.push(
+                    new vscode.CodeLens(range, {
+                        title: `🖼️ Overridden by ${path.relative(this.layers[0].rootDir, overridingPath)}`,
+                        command: 'vscode.open',
+                        arguments: [vscode.Uri.file(overridingPath)]
+                    })
+                );
+            } else if (layoutName === 'default') {
                 lenses.push(
                     new vscode.CodeLens(range, {
                         title: `🖼️ Default Layout`,
@@ -74,6 +71,15 @@ export class LayoutService {
         return lenses;
     }
 
+    /**
+     * Retourne le layout du même nom défini dans un layer plus prioritaire
+     */
+    private findOverridingLayout(filePath: string, layoutName: string): string | undefined {
+        const filePaths = this.projectIndex.getDefinitions('layout', layoutName).map(({ file }) => file.path);
+
+        return LayerResolver.findOverridingFile(this.layers, filePath, filePaths);
+    }
+
     private async getCachedReferences(cacheKey: string, layoutName: string): Promise<vscode.Location[]> {
         const now = Date.now();
         const cachedData = this.referenceCache.get(cacheKey);
@@ -97,19 +103,23 @@ export class LayoutService {
     /**
      * Find references for a layout
      */
-    private async findLayoutReferences(layoutName: string): Promise<vscode.Location[]> {
+    async findLayoutReferences(layoutName: string): Promise<vscode.Location[]> {
         const results: vscode.Location[] = [];
 
-        // Find explicit references in Vue files
-        const vueFiles = await vscode.workspace.findFiles(
-            '**/*.vue',
-            '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**}'
-        );
+        // Seuls les fichiers qui mentionnent ce layout sont analysés
+        const filePaths = [...new Set(this.projectIndex.getUsages('layout', layoutName).map(({ file }) => file.path))];
+
+        for (const filePath of filePaths) {
+            const content = await this.projectIndex.readContent(filePath);
+
+            if (content === null) {
+                continue;
+            }
 
-        for (const uri of vueFiles) {
-            try {
-                const content = fs.readFileSync(uri.fsPath, 'utf-8');
+            const uri = vscode.Uri.file(filePath);
 
+            // Find explicit references in Vue files
+            if (path.extname(filePath) === '.vue') {
                 const regex = new RegExp(`layout\\s*:\\s*(['"\`])${layoutName}\\1`, 'g');
 
                 let match;
@@ -127,21 +137,10 @@ export class LayoutService {
                         )
                     ));
                 }
-            } catch (e) {
-                continue;
             }
-        }
-
-        // Find references in Nuxt config files
-        const configFiles = await vscode.workspace.findFiles(
-            '**/nuxt.config.{js,ts}',
-            '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**,**/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**,**/store/**,**/stores/**}'
-        );
-
-        for (const uri of configFiles) {
-            try {
-                const content = fs.readFileSync(uri.fsPath, 'utf-8');
 
+            // Find references in Nuxt config files
+            if (/^nuxt\.config\.(js|ts)$/.test(path.basename(filePath))) {
                 // Recherche spécifique de layout: 'layoutName' dans les hooks de configuration
                 const layoutInHookRegex = new RegExp(`layout\\s*:\\s*(['"\`])${layoutName}\\1`, 'g');
                 let layoutMatch;
@@ -164,8 +163,6 @@ export class LayoutService {
                         ));
                     }
                 }
-            } catch (e) {
-                continue;
             }
         }
 
@@ -179,8 +176,8 @@ export class LayoutService {
 
     // Libérer les ressources utilisées par le service
     public dispose(): void {
-        if (this.fileWatcher) {
-            this.fileWatcher.dispose();
+        if (this.indexSubscription) {
+            this.indexSubscription.dispose();
         }
     }
 }
\ No newline at end of file
@@ -1,6 +1,11 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
+import * as ts from 'typescript';
 import { TextUtils } from '../utils/textUtils';
+import { ProjectIndex } from '../index/ProjectIndex';
+import { LayerResolver } from '../config/LayerResolver';
+import type { NuxtLayer } from '../types';
+import { ScriptParser } from '../parsers/ScriptParser';
+import { ParsedSfc, SfcParser } from '../parsers/SfcParser';
 import path from 'path';
 
 interface ReferenceCache {
@@ -11,28 +16,10 @@ interface ReferenceCache {
 export class MiddlewareService {
     private referenceCache: Map<string, ReferenceCache> = new Map();
     private referenceCacheTTL: number = 300000; // 5 minutes comme fallback
-    private fileWatcher: vscode.FileSystemWatcher | undefined;
+    private indexSubscription: vscode.Disposable | undefined;
 
-    constructor() {
-        this.setupFileWatcher();
-    }
-
-    private setupFileWatcher() {
-        // Surveiller les changements dans les fichiers Vue, TS et JS
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher(
-            '**/*.{vue,ts,js}',
-            false, // Ne pas ignorer les créations
-            false, // Ne pas ignorer les changements
-            false  // Ne pas ignorer les suppressions
-        );
-
-        // Lors d'un changement de fichier, invalider le cache
-        this.fileWatcher.onDidChange(() => this.invalidateReferenceCache());
-        this.fileWatcher.onDidCreate(() => this.invalidateReferenceCache());
-        this.fileWatcher.onDidDelete(() => this.invalidateReferenceCache());
-
-        // S'assurer que le watcher est disposé lorsqu'il n'est plus nécessaire
-        vscode.Disposable.from(this.fileWatcher);
+    constructor(private projectIndex: ProjectIndex, private layers: NuxtLayer[] = []) {
+        this.indexSubscription = this.projectIndex.onDidUpdate(() => this.invalidateReferenceCache());
     }
 
     async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
@@ -48,7 +35,17 @@ export class MiddlewareService {
             const isGlobal = document.fileName.includes('.global.');
 
 
-            if (isGlobal) {
+            const overridingPath = isGlobal ? undefined : this.findOverridingMiddleware(document.uri.fsPath, middlewareName);
+
+            if (overridingPath) {
+                lenses.push(
+                    new vscode.CodeLens(range, {
+                        title: `🔗 Overridden by ${path.relative(this.layers[0].rootDir, overridingPath)}`,
+                        command: 'vscode.open',
+                        arguments: [vscode.Uri.file(overridingPath)]
+                    })
+                );
+            } else if (isGlobal) {
                 lenses.push(
                     new vscode.CodeLens(range, {
                         title: `🌍 Global Middleware`,
@@ -77,71 +74,68 @@ export class MiddlewareService {
         return lenses;
     }
 
+    /**
+     * Retourne le middleware du même nom défini dans un layer plus prioritaire
+     */
+    private findOverridingMiddleware(filePath: string, middlewareName: string): string | undefined {
+        const filePaths = this.projectIndex.getDefinitions('middleware', middlewareName).map(({ file }) => file.path);
+
+        return LayerResolver.findOverridingFile(this.layers, filePath, filePaths);
+    }
+
     async findMiddlewareReferences(middlewareName: string): Promise<vscode.Location[]> {
         const results: vscode.Location[] = [];
 
-        await this.findVueFileReferences(middlewareName, results);
+        // Seuls les fichiers qui mentionnent ce middleware sont analysés
+        const filePaths = [...new Set(this.projectIndex.getUsages('middleware', middlewareName).map(({ file }) => file.path))];
 
-        await this.findNuxtConfigReferences(middlewareName, results);
+        await this.findVueFileReferences(middlewareName, filePaths, results);
+
+        await this.findNuxtConfigReferences(middlewareName, filePaths, results);
 
         return results;
     }
 
-    private async findVueFileReferences(middlewareName: string, results: vscode.Location[]): Promise<void> {
-        const uris = await vscode.workspace.findFiles(
-            '**/pages/**/*.vue',
-            '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**,, **/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**,**/store/**,**/stores/**}'
+    private async findVueFileReferences(middlewareName: string, filePaths: string[], results: vscode.Location[]): Promise<void> {
+        const pagePaths = filePaths.filter(filePath =>
+            path.extname(filePath) === '.vue' && filePath.includes(`${path.sep}pages${path.sep}`)
         );
 
-        for (const uri of uris) {
-            let content: string;
-            try {
-                content = fs.readFileSync(uri.fsPath, 'utf-8');
-            } catch (e) {
+        for (const filePath of pagePaths) {
+            const content = await this.projectIndex.readContent(filePath);
+
+            if (content === null) {
                 continue;
             }
 
-            const definePageMetaRegex = /definePageMeta\s*\(\s*\{[^}]*\}/g;
-            let metaMatch;
+            const uri = vscode.Uri.file(filePath);
 
-            while ((metaMatch = definePageMetaRegex.exec(content)) !== null) {
-                const metaContent = metaMatch[0];
+            let sfc: ParsedSfc;
 
-                const metaStartIndex = metaMatch.index;
-
-                // Recherche middleware unique
-                const singleMiddlewareRegex = new RegExp(`middleware\\s*:\\s*(['"\`])(${middlewareName})\\1`, 'g');
-                let singleMatch;
-
-                while ((singleMatch = singleMiddlewareRegex.exec(metaContent)) !== null) {
-                    const middlewareValueIndex = metaContent.indexOf(singleMatch[1] + middlewareName + singleMatch[1], singleMatch.index);
-                    const exactIndex = metaStartIndex + middlewareValueIndex + 1;
+            try {
+                sfc = SfcParser.parse(content, filePath);
+            } catch (e) {
+                continue;
+            }
 
-                    const start = TextUtils.indexToPosition(content, exactIndex);
-                    const end = TextUtils.indexToPosition(content, exactIndex + middlewareName.length);
+            for (const block of SfcParser.getScriptBlocks(sfc)) {
+                for (const call of ScriptParser.findCalls(block.ast, 'definePageMeta')) {
+                    const meta = call.arguments[0] && ScriptParser.unwrap(call.arguments[0]);
 
-                    results.push(new vscode.Location(
-                        uri,
-                        new vscode.Range(
-                            new vscode.Position(start.line, start.character),
-                            new vscode.Position(end.line, end.character)
-                        )
-                    ));
-                }
+                    if (!meta || !ts.isObjectLiteralExpression(meta)) {
+                        continue;
+                    }
 
-                // Recherche middleware en tableau
-                const arrayMiddlewareRegex = /middleware\s*:\s*\[([^\]]*)\]/g;
-                let arrayMatch;
+                    // middleware: 'name' ou middleware: ['a', 'b']
+                    const middlewareValues = ScriptParser.getStringLiterals(ScriptParser.getPropertyValue(meta, 'middleware'));
 
-                while ((arrayMatch = arrayMiddlewareRegex.exec(metaContent)) !== null) {
-                    const arrayContent = arrayMatch[1];
-                    const itemRegex = new RegExp(`(['"\`])(${middlewareName})\\1`, 'g');
-                    let itemMatch;
+                    for (const literal of middlewareValues) {
+                        if (literal.text !== middlewareName) {
+                            continue;
+                        }
 
-                    while ((itemMatch = itemRegex.exec(arrayContent)) !== null) {
-                        const arrayStartIndex = metaContent.indexOf(arrayContent, arrayMatch.index);
-                        const middlewareInArrayIndex = arrayContent.indexOf(itemMatch[0]);
-                        const exactIndex = metaStartIndex + arrayStartIndex + middlewareInArrayIndex + 1;
+                        // +1 pour se placer après le guillemet ouvrant
+                        const exactIndex = SfcParser.getNodeOffset(block, literal) + 1;
 
                         const start = TextUtils.indexToPosition(content, exactIndex);
                         const end = TextUtils.indexToPosition(content, exactIndex + middlewareName.length);
@@ -159,15 +153,18 @@ export class MiddlewareService {
         }
     }
 
-    private async findNuxtConfigReferences(middlewareName: string, results: vscode.Location[]): Promise<void> {
-        const configFiles = await vscode.workspace.findFiles(
-            '**/nuxt.config.{js,ts}',
-            '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**,, **/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**,**/store/**,**/stores/**}'
-        );
+    private async findNuxtConfigReferences(middlewareName: string, filePaths: string[], results: vscode.Location[]): Promise<void> {
+        const configPaths = filePaths.filter(filePath => /^nuxt\.config\.(js|ts)$/.test(path.basename(filePath)));
 
-        for (const uri of configFiles) {
+        for (const filePath of configPaths) {
             try {
-                const content = fs.readFileSync(uri.fsPath, 'utf-8');
+                const content = await this.projectIndex.readContent(filePath);
+
+                if (content === null) {
+                    continue;
+                }
+
+                const uri = vscode.Uri.file(filePath);
 
                 // Recherche middleware unique
                 const singleMiddlewareRegex = new RegExp(`middleware\\s*:\\s*(['"\`])(${middlewareName})\\1`, 'g');
@@ -238,8 +235,8 @@ export class MiddlewareService {
     }
 
     public dispose(): void {
-        if (this.fileWatcher) {
-            this.fileWatcher.dispose();
+        if (this.indexSubscription) {
+            this.indexSubscription.dispose();
         }
     }
 
@@ -1,39 +1,25 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
 import { TextUtils } from '../utils/textUtils';
+import { ProjectIndex } from '../index/ProjectIndex';
 
 interface ReferenceCache {
     references: vscode.Location[];
     timestamp: number;
 }
 
+// Dossiers dans lesquels on ne cherche pas d'utilisations de plugins
+const PLUGIN_SEARCH_EXCLUDED_DIRS = ['utils', 'lib', 'helpers', 'constants', 'shared', 'public', 'config', 'assets', 'store', 'stores'];
+
 export class PluginService {
     private referenceCache: Map<string, ReferenceCache> = new Map();
 
     private referenceCacheTTL: number = 300000;
 
-    private fileWatcher: vscode.FileSystemWatcher | undefined;
-
-    constructor() {
-        this.setupFileWatcher();
-    }
-
-    private setupFileWatcher() {
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher(
-            '**/*.{vue,js,ts}',
-            false, // Ne pas ignorer les créations
-            false, // Ne pas ignorer les changements
-            false  // Ne pas ignorer les suppressions
-        );
+    private indexSubscription: vscode.Disposable | undefined;
 
-        this.fileWatcher.onDidChange(() => this.invalidateReferenceCache());
-
-        this.fileWatcher.onDidCreate(() => this.invalidateReferenceCache());
-
-        this.fileWatcher.onDidDelete(() => this.invalidateReferenceCache());
-
-        vscode.Disposable.from(this.fileWatcher);
+    constructor(private projectIndex: ProjectIndex) {
+        this.indexSubscription = this.projectIndex.onDidUpdate(() => this.invalidateReferenceCache());
     }
 
     async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
@@ -100,21 +86,17 @@ export class PluginService {
         const references: vscode.Location[] = [];
         const addedReferences = new Set<string>();
 
-        const pluginUris = await vscode.workspace.findFiles(
-            `**/plugins/${pluginName}.{js,ts}`,
-            '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**,, **/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**,**/store/**,**/stores/**}'
-        );
+        const pluginDefinitions = this.projectIndex.getDefinitions('plugin', pluginName);
 
-        if (pluginUris.length === 0) {
+        if (pluginDefinitions.length === 0) {
             return references;
         }
 
-        const pluginPath = pluginUris[0].fsPath;
+        const pluginPath = pluginDefinitions[0].file.path;
 
-        let pluginContent: string;
-        try {
-            pluginContent = fs.readFileSync(pluginPath, 'utf-8');
-        } catch (e) {
+        const pluginContent = await this.projectIndex.readContent(pluginPath);
+
+        if (pluginContent === null) {
             return references;
         }
 
@@ -171,18 +153,30 @@ export class PluginService {
             return references;
         }
 
-        const allFileUris = await vscode.workspace.findFiles(
-            '**/*.{vue,js,ts}',
-            '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**,, **/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**,**/store/**,**/stores/**}'
-        );
+        // Seuls les fichiers mentionnant une clé fournie, une directive ou le plugin sont analysés
+        const candidateIdentifiers = [
+            pluginName.split(/[^\w$]/)[0],
+            ...provides.map(key => `$${key}`),
+            ...directives.map(directive => directive.split('-')[0])
+        ];
+
+        const candidateFiles = this.projectIndex.getFilesWithIdentifier(candidateIdentifiers, {
+            excludeDirs: PLUGIN_SEARCH_EXCLUDED_DIRS
+        });
 
-        for (const uri of allFileUris) {
-            if (uri.fsPath.includes('.nuxt') || uri.fsPath === pluginPath) {
+        for (const file of candidateFiles) {
+            if (file.path === pluginPath) {
                 continue;
             }
 
+            const uri = vscode.Uri.file(file.path);
+
             try {
-                const fileContent = fs.readFileSync(uri.fsPath, 'utf-8');
+                const fileContent = await this.projectIndex.readContent(file.path);
+
+                if (fileContent === null) {
+                    continue;
+                }
 
                 // Check provides usage
                 for (const key of provides) {
@@ -294,8 +288,8 @@ export class PluginService {
     }
 
     public dispose(): void {
-        if (this.fileWatcher) {
-            this.fileWatcher.dispose();
+        if (this.indexSubscription) {
+            this.indexSubscription.dispose();
         }
     }
 }
\ No newline at end of file
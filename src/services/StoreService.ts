@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import { FileUtils } from '../utils/fileUtils';
+import * as path from 'path';
+import * as ts from 'typescript';
 import { TextUtils } from '../utils/textUtils';
+import { ProjectIndex } from '../index/ProjectIndex';
+import { ScriptParser } from '../parsers/ScriptParser';
 import type { NuxtComponentInfo } from '../types';
 
 interface ReferenceCache {
@@ -9,32 +12,21 @@ interface ReferenceCache {
     timestamp: number;
 }
 
+// Dossiers dans lesquels on ne cherche pas d'utilisations de stores
+const STORE_SEARCH_EXCLUDED_DIRS = ['utils', 'lib', 'helpers', 'constants', 'shared', 'public', 'config', 'assets'];
+
 export class StoreService {
     private referenceCache: Map<string, ReferenceCache> = new Map();
 
     private referenceCacheTTL: number = 300000;
 
-    private fileWatcher: vscode.FileSystemWatcher | undefined;
+    private indexSubscription: vscode.Disposable | undefined;
 
-    constructor(private autoImportCache: Map<string, NuxtComponentInfo[]>) {
-        this.setupFileWatcher();
-    }
-
-    private setupFileWatcher() {
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher(
-            '**/*.{vue,ts,js}',
-            false,
-            false,
-            false
-        );
-
-        this.fileWatcher.onDidChange(() => this.invalidateReferenceCache());
-
-        this.fileWatcher.onDidCreate(() => this.invalidateReferenceCache());
-
-        this.fileWatcher.onDidDelete(() => this.invalidateReferenceCache());
-
-        vscode.Disposable.from(this.fileWatcher);
+    constructor(
+        private autoImportCache: Map<string, NuxtComponentInfo[]>,
+        private projectIndex: ProjectIndex
+    ) {
+        this.indexSubscription = this.projectIndex.onDidUpdate(() => this.invalidateReferenceCache());
     }
 
     async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
@@ -190,6 +182,30 @@ export class StoreService {
         return references;
     }
 
+    /**
+     * Retourne l'identifiant du store défini par un hook (`useCartStore` → `cart`)
+     */
+    async findStoreIdByHook(hookName: string): Promise<string | undefined> {
+        for (const { file, definition } of this.projectIndex.getDefinitions('store')) {
+            const content = await this.projectIndex.readContent(file.path);
+
+            if (content === null) {
+                continue;
+            }
+
+            const hookNameRegex = /const\s+(\w+)\s*=\s*defineStore\s*\(\s*['"`]([^'"`]+)['"`]/g;
+
+            let hookMatch;
+            while ((hookMatch = hookNameRegex.exec(content)) !== null) {
+                if (hookMatch[1] === hookName && hookMatch[2] === definition.name) {
+                    return definition.name;
+                }
+            }
+        }
+
+        return undefined;
+    }
+
     async findStoreReferences(storeName: string): Promise<vscode.Location[]> {
         try {
             const normalizedName = storeName
@@ -208,69 +224,63 @@ export class StoreService {
                 `${storeName.replace(/-/g, '_')}s`
             ];
 
-            const uris = await vscode.workspace.findFiles(
-                '**/*.{vue,js,ts}',
-                '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**,, **/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**}'
-            );
-
             const results: vscode.Location[] = [];
 
             const storeDefinitions: Map<string, string> = new Map();
 
             const storeDefinitionFiles: Set<string> = new Set();
 
-            for (const uri of uris) {
-                if (FileUtils.shouldSkipFile(uri.fsPath)) {
-                    continue;
+            // Les définitions de stores sont déjà connues de l'index du projet
+            for (const { file, definition } of this.projectIndex.getDefinitions('store')) {
+                const storeId = definition.name;
+
+                if (possibleStoreIds.includes(storeId)) {
+                    storeDefinitionFiles.add(file.path);
                 }
 
-                let content: string;
+                const content = await this.projectIndex.readContent(file.path);
 
-                try {
-                    content = fs.readFileSync(uri.fsPath, 'utf-8');
-                } catch (e) {
+                if (content === null) {
                     continue;
                 }
 
-                const defineStoreRegex = /defineStore\s*\(\s*['"]([^'"]+)['"]/g;
-
-                let defineMatch;
+                const hookNameRegex = /const\s+(\w+)\s*=\s*defineStore\s*\(\s*['"]([^'"]+)['"]/g;
 
-                while ((defineMatch = defineStoreRegex.exec(content)) !== null) {
-                    const storeId = defineMatch[1];
+                let hookMatch;
+                while ((hookMatch = hookNameRegex.exec(content)) !== null) {
+                    if (hookMatch[2] === storeId) {
+                        storeDefinitions.set(storeId, hookMatch[1]);
 
-                    if (possibleStoreIds.includes(storeId)) {
-                        storeDefinitionFiles.add(uri.fsPath);
+                        break;
                     }
+                }
+            }
 
-                    const hookNameRegex = /const\s+(\w+)\s*=\s*defineStore\s*\(\s*['"]([^'"]+)['"]/g;
-
-                    hookNameRegex.lastIndex = 0;
-
-                    let hookMatch;
-                    while ((hookMatch = hookNameRegex.exec(content)) !== null) {
-                        if (hookMatch[2] === storeId) {
-                            storeDefinitions.set(storeId, hookMatch[1]);
+            const candidateIdentifiers = [storeHookName, 'useStore'];
 
-                            break;
-                        }
-                    }
+            for (const storeId of possibleStoreIds) {
+                if (storeDefinitions.has(storeId)) {
+                    candidateIdentifiers.push(storeDefinitions.get(storeId)!);
                 }
             }
 
-            for (const uri of uris) {
-                if (FileUtils.shouldSkipFile(uri.fsPath) || storeDefinitionFiles.has(uri.fsPath)) {
+            const files = this.projectIndex.getFilesWithIdentifier(candidateIdentifiers, {
+                excludeDirs: STORE_SEARCH_EXCLUDED_DIRS
+            });
+
+            for (const file of files) {
+                if (storeDefinitionFiles.has(file.path)) {
                     continue;
                 }
 
-                let content: string;
+                const content = await this.projectIndex.readContent(file.path);
 
-                try {
-                    content = fs.readFileSync(uri.fsPath, 'utf-8');
-                } catch (e) {
+                if (content === null) {
                     continue;
                 }
 
+                const uri = vscode.Uri.file(file.path);
+
                 const hookRegex = new RegExp(`\\b${storeHookName}\\b`, 'g');
 
                 TextUtils.findMatches(hookRegex, content, uri, results);
@@ -305,26 +315,39 @@ export class StoreService {
         const storeHookName = `use${normalizedName}Store`;
         const results: vscode.Location[] = [];
 
-        const uris = await vscode.workspace.findFiles(
-            '**/*.{vue,js,ts}',
-            '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**,**/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**,**/public/**,**/config/**,**/assets/**}'
-        );
-
         // Nouveau: Détection des alias de store
         const storeAliasPatterns: string[] = [];
 
-        for (const uri of uris) {
-            if (FileUtils.shouldSkipFile(uri.fsPath)) {
+        // Les alias sont déclarés dans les fichiers qui appellent le hook du store
+        for (const file of this.projectIndex.getFilesWithIdentifier(storeHookName, { excludeDirs: STORE_SEARCH_EXCLUDED_DIRS })) {
+            const content = await this.projectIndex.readContent(file.path);
+
+            if (content === null) {
                 continue;
             }
 
-            let content: string;
-            try {
-                content = fs.readFileSync(uri.fsPath, 'utf-8');
-            } catch (e) {
+            const storeAliasRegex = new RegExp(`const\\s+(\\w+)\\s*=\\s*${storeHookName}\\(\\\)`, 'g');
+            let aliasMatch;
+            while ((aliasMatch = storeAliasRegex.exec(content)) !== null) {
+                const alias = aliasMatch[1];
+                if (!storeAliasPatterns.includes(alias)) {
+                    storeAliasPatterns.push(alias);
+                }
+            }
+        }
+
+        // Tous les motifs recherchés contiennent le nom du membre
+        const files = this.projectIndex.getFilesWithIdentifier(memberName, { excludeDirs: STORE_SEARCH_EXCLUDED_DIRS });
+
+        for (const file of files) {
+            const content = await this.projectIndex.readContent(file.path);
+
+            if (content === null) {
                 continue;
             }
 
+            const uri = vscode.Uri.file(file.path);
+
             // Pattern 1: store.member (avec le hook direct)
             const dotPattern = new RegExp(`\\b${storeHookName}\\(\\).${memberName}\\b`, 'g');
             TextUtils.findMatches(dotPattern, content, uri, results);
@@ -337,16 +360,6 @@ export class StoreService {
             const valuePattern = new RegExp(`\\b${storeHookName}\\(\\).value.${memberName}\\b`, 'g');
             TextUtils.findMatches(valuePattern, content, uri, results);
 
-            // Nouveau: Détection des alias de store (const adminStore = useAdminStore())
-            const storeAliasRegex = new RegExp(`const\\s+(\\w+)\\s*=\\s*${storeHookName}\\(\\\)`, 'g');
-            let aliasMatch;
-            while ((aliasMatch = storeAliasRegex.exec(content)) !== null) {
-                const alias = aliasMatch[1];
-                if (!storeAliasPatterns.includes(alias)) {
-                    storeAliasPatterns.push(alias);
-                }
-            }
-
             // Nouveau: Détection des références via storeToRefs
             // Pattern: const { member } = storeToRefs(store)
             const storeToRefsPattern = new RegExp(`const\\s*\\{\\s*${memberName}\\s*\\}\\s*=\\s*storeToRefs\\(\\s*\\w+Store\\s*\\)`, 'g');
@@ -361,18 +374,15 @@ export class StoreService {
 
         // Nouveau: Recherche des références via les alias détectés
         if (storeAliasPatterns.length > 0) {
-            for (const uri of uris) {
-                if (FileUtils.shouldSkipFile(uri.fsPath)) {
-                    continue;
-                }
+            for (const file of this.projectIndex.getFilesWithIdentifier(storeAliasPatterns, { excludeDirs: STORE_SEARCH_EXCLUDED_DIRS })) {
+                const content = await this.projectIndex.readContent(file.path);
 
-                let content: string;
-                try {
-                    content = fs.readFileSync(uri.fsPath, 'utf-8');
-                } catch (e) {
+                if (content === null) {
                     continue;
                 }
 
+                const uri = vscode.Uri.file(file.path);
+
                 for (const alias of storeAliasPatterns) {
                     // Pattern 4: alias.member (adminStore.get())
                     const aliasDotPattern = new RegExp(`\\b${alias}\\.${memberName}\\b`, 'g');
@@ -415,123 +425,32 @@ export class StoreService {
 
         const storeInfos: NuxtComponentInfo[] = [];
 
-        const files = await vscode.workspace.findFiles(
-            '**/*.{ts,js}',
-            '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**,, **/utils/**,**/lib/**,**/helpers/**,**/constants/**,**/shared/**, **/public/**,**/config/**, **/assets/**}'
+        // Seuls les fichiers déclarant un store sont analysés
+        const storeFiles = new Set(
+            this.projectIndex.getDefinitions('store')
+                .filter(({ file }) => ['.ts', '.js'].includes(path.extname(file.path)))
+                .map(({ file }) => file.path)
         );
 
-        for (const file of files) {
+        for (const filePath of storeFiles) {
             try {
-                const content = fs.readFileSync(file.fsPath, 'utf-8');
-
-                const defineStoreRegex = /defineStore\s*\(\s*(['"`])(.*?)\1/g;
-
-                let match: RegExpExecArray | null;
-
-                while ((match = defineStoreRegex.exec(content))) {
-                    const storeInfo: NuxtComponentInfo = {
-                        name: match[2],
-                        path: file.fsPath,
-                        isAutoImported: true,
-                        members: {
-                            state: [],
-                            getters: [],
-                            actions: [],
-                            methods: [],
-                            variables: []
-                        }
-                    };
-
-                    // Détection pour API Options
-                    if (content.includes('state:') || content.includes('getters:') || content.includes('actions:')) {
-                        // Détection des états (state)
-                        const stateRegex = /state\s*\(\s*\)\s*:\s*\(\s*\)\s*=>\s*{([^}]*)}/s;
-                        const stateMatch = content.match(stateRegex);
-                        if (stateMatch && stateMatch[1]) {
-                            const stateContent = stateMatch[1];
-                            const stateVars = stateContent.split('\n')
-                                .map(line => line.trim())
-                                .filter(line => line && !line.startsWith('//') && line.includes(':'))
-                                .map(line => line.split(':')[0].trim());
-                            storeInfo.members!.state = stateVars;
-                        }
-
-                        // Détection des getters
-                        const gettersRegex = /getters\s*:\s*{([^}]*)}/s;
-                        const gettersMatch = content.match(gettersRegex);
-                        if (gettersMatch && gettersMatch[1]) {
-                            const gettersContent = gettersMatch[1];
-                            const getters = gettersContent.split('\n')
-                                .map(line => line.trim())
-                                .filter(line => line && !line.startsWith('//') && line.includes('('))
-                                .map(line => line.split('(')[0].trim());
-                            storeInfo.members!.getters = getters;
-                        }
-
-                        // Détection des actions
-                        const actionsRegex = /actions\s*:\s*{([^}]*)}/s;
-                        const actionsMatch = content.match(actionsRegex);
-                        if (actionsMatch && actionsMatch[1]) {
-                            const actionsContent = actionsMatch[1];
-                            const actions = actionsContent.split('\n')
-                                .map(line => line.trim())
-                                .filter(line => line && !line.startsWith('//') && line.includes('('))
-                                .map(line => line.split('(')[0].trim());
-                            storeInfo.members!.actions = actions;
-                        }
-                    }
+                const content = await this.projectIndex.readContent(filePath);
 
-                    // Détection pour API Composition
-                    else {
-                        // Détection des variables (const, let, var)
-                        const variableRegex = /(const|let|var)\s+([a-zA-Z_$][0-9a-zA-Z_$]*)\s*(?=[:=])/g;
-                        let varMatch;
-                        while ((varMatch = variableRegex.exec(content)) !== null) {
-                            if (!storeInfo.members!.variables!.includes(varMatch[2])) {
-                                storeInfo.members!.variables!.push(varMatch[2]);
-                            }
-                        }
-
-                        // Détection des méthodes (function, async function, arrow)
-                        const functionRegex = /(?:async\s+)?function\s+([a-zA-Z_$][0-9a-zA-Z_$]*)\s*\(|const\s+([a-zA-Z_$][0-9a-zA-Z_$]*)\s*=\s*(?:async\s*)?\(?([^)=]*)\)?\s*=>/g;
-                        let funcMatch;
-                        while ((funcMatch = functionRegex.exec(content)) !== null) {
-                            const methodName = funcMatch[1] || funcMatch[2];
-                            if (methodName && !storeInfo.members!.methods!.includes(methodName)) {
-                                storeInfo.members!.methods!.push(methodName);
-                            }
-                        }
-
-                        // Détection des computed (getters)
-                        const computedRegex = /const\s+([a-zA-Z_$][0-9a-zA-Z_$]*)\s*=\s*computed\s*\(/g;
-                        let computedMatch;
-                        while ((computedMatch = computedRegex.exec(content)) !== null) {
-                            if (!storeInfo.members!.getters!.includes(computedMatch[1])) {
-                                storeInfo.members!.getters!.push(computedMatch[1]);
-                            }
-                        }
-
-                        // Analyse du return pour vérifier ce qui est exposé
-                        const returnRegex = /return\s*{([^}]*)}/s;
-                        const returnMatch = content.match(returnRegex);
-                        if (returnMatch && returnMatch[1]) {
-                            const returnContent = returnMatch[1];
-                            const returnedMembers = returnContent.split(',')
-                                .map(line => line.trim())
-                                .filter(line => line && !line.startsWith('//') && !line.startsWith('...'))
-                                .map(line => line.split(':')[0].trim());
-
-                            // Filtrer les membres non exposés
-                            storeInfo.members!.variables = storeInfo.members!.variables!.filter(v => returnedMembers.includes(v));
-                            storeInfo.members!.methods = storeInfo.members!.methods!.filter(m => returnedMembers.includes(m));
-                            storeInfo.members!.getters = storeInfo.members!.getters!.filter(g => returnedMembers.includes(g));
-                        }
-                    }
+                if (content === null) {
+                    continue;
+                }
+
+                const sourceFile = ScriptParser.parse(content, filePath);
+
+                for (const call of ScriptParser.findCalls(sourceFile, 'defineStore')) {
+                    const storeInfo = this.analyzeStoreDefinition(call, filePath);
 
-                    storeInfos.push(storeInfo);
+                    if (storeInfo) {
+                        storeInfos.push(storeInfo);
+                    }
                 }
             } catch (e) {
-                console.error(`Error parsing store file ${file.fsPath}:`, e);
+                console.error(`Error parsing store file ${filePath}:`, e);
             }
         }
 
@@ -539,14 +458,102 @@ export class StoreService {
         this.invalidateReferenceCache();
     }
 
+    /**
+     * Analyse un appel `defineStore(...)` en API Options ou en API Composition
+     */
+    private analyzeStoreDefinition(call: ts.CallExpression, filePath: string): NuxtComponentInfo | null {
+        const [firstArg, secondArg] = call.arguments.map(arg => ScriptParser.unwrap(arg));
+
+        // defineStore('id', ...) ou defineStore({ id: 'id', ... })
+        let storeId: string | undefined;
+        let definition: ts.Expression | undefined = secondArg;
+
+        if (firstArg && ts.isStringLiteralLike(firstArg)) {
+            storeId = firstArg.text;
+        } else if (firstArg && ts.isObjectLiteralExpression(firstArg)) {
+            storeId = ScriptParser.getStringLiterals(ScriptParser.getPropertyValue(firstArg, 'id'))[0]?.text;
+            definition = firstArg;
+        }
+
+        if (!storeId) {
+            return null;
+        }
+
+        const storeInfo: NuxtComponentInfo = {
+            name: storeId,
+            path: filePath,
+            isAutoImported: true,
+            members: {
+                state: [],
+                getters: [],
+                actions: [],
+                methods: [],
+                variables: []
+            }
+        };
+
+        // Détection pour API Options
+        if (definition && ts.isObjectLiteralExpression(definition)) {
+            const state = ScriptParser.getPropertyValue(definition, 'state');
+
+            if (ScriptParser.isFunctionLike(state)) {
+                const stateObject = ScriptParser.findReturnedObject(state);
+
+                storeInfo.members!.state = stateObject ? ScriptParser.getPropertyNames(stateObject) : [];
+            }
+
+            const getters = ScriptParser.getPropertyValue(definition, 'getters');
+
+            if (getters && ts.isObjectLiteralExpression(getters)) {
+                storeInfo.members!.getters = ScriptParser.getPropertyNames(getters);
+            }
+
+            const actions = ScriptParser.getPropertyValue(definition, 'actions');
+
+            if (actions && ts.isObjectLiteralExpression(actions)) {
+                storeInfo.members!.actions = ScriptParser.getPropertyNames(actions);
+            }
+        }
+
+        // Détection pour API Composition
+        else if (ScriptParser.isFunctionLike(definition)) {
+            const returnedObject = ScriptParser.findReturnedObject(definition);
+
+            // Seuls les membres retournés sont exposés
+            const returnedMembers = returnedObject ? ScriptParser.getPropertyNames(returnedObject) : [];
+
+            for (const member of returnedMembers) {
+                const declaration = ScriptParser.findDeclaration(definition, member);
+
+                if (!declaration) {
+                    continue;
+                }
+
+                const initializer = ts.isVariableDeclaration(declaration) && declaration.initializer
+                    ? ScriptParser.unwrap(declaration.initializer)
+                    : undefined;
+
+                if (ts.isFunctionDeclaration(declaration) || ScriptParser.isFunctionLike(initializer)) {
+                    storeInfo.members!.methods!.push(member);
+                } else if (ScriptParser.getInitializerCallee(declaration) === 'computed') {
+                    storeInfo.members!.getters!.push(member);
+                } else {
+                    storeInfo.members!.variables!.push(member);
+                }
+            }
+        }
+
+        return storeInfo;
+    }
+
     public invalidateReferenceCache(): void {
         this.referenceCache.clear();
         this.memberReferenceCache.clear();
     }
 
     public dispose(): void {
-        if (this.fileWatcher) {
-            this.fileWatcher.dispose();
+        if (this.indexSubscription) {
+            this.indexSubscription.dispose();
         }
     }
 }
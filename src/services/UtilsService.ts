@@ -3,23 +3,23 @@ import * as fs from 'fs';
 import { FileUtils } from '../utils/fileUtils';
 import { PathUtils } from '../utils/pathUtils';
 import { TextUtils } from '../utils/textUtils';
+import { ProjectIndex } from '../index/ProjectIndex';
 import * as path from 'path';
-import type { NuxtComponentInfo } from '../types';
+import type { NuxtComponentInfo, NuxtLayer } from '../types';
 
 export class UtilsService {
     constructor(
         private autoImportCache: Map<string, NuxtComponentInfo[]>,
-        private nuxtProjectRoot: string
+        private nuxtProjectRoot: string,
+        private projectIndex: ProjectIndex,
+        private layers: NuxtLayer[] = []
     ) { }
 
     async findUtilsReferences(document: vscode.TextDocument, name: string, position: vscode.Position): Promise<vscode.Location[]> {
         try {
             const results: vscode.Location[] = [];
 
-            const uris = await vscode.workspace.findFiles(
-                '**/*.{vue,js,ts}',
-                '{**/node_modules/**,**/.nuxt/**,**/.output/**,**/dist/**}'
-            );
+            const files = this.projectIndex.getFilesWithIdentifier(name);
 
             // Première passe : utiliser le provider de références natif de VS Code
             const nativeReferences = await vscode.commands.executeCommand<vscode.Location[]>(
@@ -38,16 +38,17 @@ export class UtilsService {
             }
 
             // Deuxième passe : recherche dans tous les fichiers du workspace
-            for (const uri of uris) {
-                if (uri.fsPath === document.uri.fsPath) continue;
+            for (const file of files) {
+                if (file.path === document.uri.fsPath) continue;
 
-                let content: string;
-                try {
-                    content = fs.readFileSync(uri.fsPath, 'utf-8');
-                } catch {
+                const content = await this.projectIndex.readContent(file.path);
+
+                if (content === null) {
                     continue;
                 }
 
+                const uri = vscode.Uri.file(file.path);
+
                 const importRegex = new RegExp(`import\\s+{[^}]*\\b${name}\\b[^}]*}\\s+from\\s+(['"\`][^'\`"]*['"\`])`, 'g');
 
                 let match;
@@ -169,45 +170,54 @@ export class UtilsService {
 
         const utilsInfos: NuxtComponentInfo[] = [];
 
+        const layerRoots = this.layers.length > 0 ? this.layers.map(layer => layer.rootDir) : [this.nuxtProjectRoot];
+
+        // Dossiers auto-importés par Nuxt (utils, shared/utils) et dossiers utilitaires usuels
+        const dirs = new Set(this.layers.flatMap(layer => layer.dirs.utils));
+
         for (const dirName of utilsDirNames) {
-            const dirs = await FileUtils.findAllDirsByName(this.nuxtProjectRoot, dirName);
+            for (const dir of await FileUtils.findAllDirsByName(layerRoots, dirName)) {
+                dirs.add(dir);
+            }
+        }
 
-            for (const dir of dirs) {
-                if (!fs.existsSync(dir)) continue;
+        for (const dir of dirs) {
+            if (!fs.existsSync(dir)) continue;
 
-                const relativePattern = new vscode.RelativePattern(dir, '**/*.{ts,js}');
+            const files = this.projectIndex.getFiles({ extensions: ['.ts', '.js'], withinDir: dir });
 
-                const files = await vscode.workspace.findFiles(relativePattern);
+            for (const file of files) {
+                try {
+                    const content = await this.projectIndex.readContent(file.path);
 
-                for (const file of files) {
-                    try {
-                        const content = fs.readFileSync(file.fsPath, 'utf-8');
+                    if (content === null) {
+                        continue;
+                    }
 
-                        // Éviter de scanner les fichiers qui contiennent des définitions de store ou de composables
-                        if (content.includes('defineStore') ||
-                            file.fsPath.includes(path.sep + 'composables' + path.sep) ||
-                            file.fsPath.includes(path.sep + 'stores' + path.sep)) {
-                            continue;
-                        }
+                    // Éviter de scanner les fichiers qui contiennent des définitions de store ou de composables
+                    if (content.includes('defineStore') ||
+                        file.path.includes(path.sep + 'composables' + path.sep) ||
+                        file.path.includes(path.sep + 'stores' + path.sep)) {
+                        continue;
+                    }
 
-                        // Détecter les exports
-                        const exportRegex = /export\s+(const|function|async function|interface|type|enum|class)\s+(\w+)/g;
-                        let match: RegExpExecArray | null;
+                    // Détecter les exports
+                    const exportRegex = /export\s+(const|function|async function|interface|type|enum|class)\s+(\w+)/g;
+                    let match: RegExpExecArray | null;
 
-                        while ((match = exportRegex.exec(content))) {
-                            const exportType = match[1];
-                            const name = match[2];
+                    while ((match = exportRegex.exec(content))) {
+                        const exportType = match[1];
+                        const name = match[2];
 
-                            utilsInfos.push({
-                                name: name,
-                                path: file.fsPath,
-                                isAutoImported: false, // Les utilitaires ne sont généralement pas auto-importés par défaut
-                                exportType: exportType // Stocker le type d'export pour différencier
-                            });
-                        }
-                    } catch (e) {
-                        console.error(`Error scanning utils file ${file.fsPath}:`, e);
+                        utilsInfos.push({
+                            name: name,
+                            path: file.path,
+                            isAutoImported: false, // Les utilitaires ne sont généralement pas auto-importés par défaut
+                            exportType: exportType // Stocker le type d'export pour différencier
+                        });
                     }
+                } catch (e) {
+                    console.error(`Error scanning utils file ${file.path}:`, e);
                 }
             }
         }
@@ -0,0 +1,19 @@
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+async function main() {
+    try {
+        // Dossier contenant le package.json de l'extension
+        const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+
+        // Point d'entrée des suites de tests
+        const extensionTestsPath = path.resolve(__dirname, './suite/index');
+
+        await runTests({ extensionDevelopmentPath, extensionTestsPath });
+    } catch (error) {
+        console.error('Failed to run tests:', error);
+        process.exit(1);
+    }
+}
+
+main();
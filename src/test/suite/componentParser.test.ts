@@ -0,0 +1,207 @@
+import * as assert from 'assert';
+import { ComponentParser } from '../../parsers/ComponentParser';
+import { ComponentMeta, ComponentProp } from '../../types';
+import { vueFile } from './fixtures';
+
+function parseSetup(script: string, template = ''): ComponentMeta {
+    return ComponentParser.parse(vueFile(script, template), 'Fixture.vue');
+}
+
+function getProp(meta: ComponentMeta, name: string): ComponentProp {
+    const prop = meta.props.find(candidate => candidate.name === name);
+
+    assert.ok(prop, `prop "${name}" not found`);
+
+    return prop;
+}
+
+suite('ComponentParser', () => {
+    suite('defineProps', () => {
+        test('reads required flags, types and literal values from a type literal', () => {
+            const meta = parseSetup(`defineProps<{ title: string; size?: 'sm' | 'md' }>()`);
+
+            assert.deepStrictEqual(meta.props.map(prop => prop.name), ['title', 'size']);
+            assert.strictEqual(getProp(meta, 'title').required, true);
+            assert.strictEqual(getProp(meta, 'title').type, 'string');
+            assert.strictEqual(getProp(meta, 'size').required, false);
+            assert.deepStrictEqual(getProp(meta, 'size').values, [`'sm'`, `'md'`]);
+            assert.strictEqual(meta.dynamicProps, false);
+        });
+
+        test('follows local interfaces, their extends clauses and type aliases', () => {
+            const meta = parseSetup([
+                `type Size = 'sm' | 'md'`,
+                `interface Base { id: number }`,
+                `interface Props extends Base { size?: Size }`,
+                `defineProps<Props>()`
+            ].join('\n'));
+
+            assert.deepStrictEqual(meta.props.map(prop => prop.name).sort(), ['id', 'size']);
+            assert.deepStrictEqual(getProp(meta, 'size').values, [`'sm'`, `'md'`]);
+            assert.strictEqual(meta.dynamicProps, false);
+        });
+
+        test('marks props as dynamic when the type is imported', () => {
+            const meta = parseSetup([
+                `import type { Props } from './types'`,
+                `defineProps<Props>()`
+            ].join('\n'));
+
+            assert.strictEqual(meta.dynamicProps, true);
+        });
+
+        test('marks props as dynamic when an intersection references an imported type', () => {
+            const meta = parseSetup([
+                `import type { Extra } from './types'`,
+                `defineProps<{ title: string } & Extra>()`
+            ].join('\n'));
+
+            assert.ok(meta.props.some(prop => prop.name === 'title'));
+            assert.strictEqual(meta.dynamicProps, true);
+        });
+
+        test('reads runtime declarations, PropType and factory defaults', () => {
+            const meta = parseSetup([
+                `import type { PropType } from 'vue'`,
+                `defineProps({`,
+                `    title: String,`,
+                `    size: { type: String as PropType<'sm' | 'lg'>, required: true, default: 'sm' },`,
+                `    items: { type: Array, default: () => [] }`,
+                `})`
+            ].join('\n'));
+
+            assert.strictEqual(getProp(meta, 'title').type, 'string');
+            assert.strictEqual(getProp(meta, 'title').required, false);
+            assert.strictEqual(getProp(meta, 'size').required, true);
+            assert.strictEqual(getProp(meta, 'size').default, `'sm'`);
+            assert.deepStrictEqual(getProp(meta, 'size').values, [`'sm'`, `'lg'`]);
+            assert.strictEqual(getProp(meta, 'items').default, '[]');
+        });
+
+        test('reads the array form', () => {
+            const meta = parseSetup(`defineProps(['title', 'size'])`);
+
+            assert.deepStrictEqual(meta.props.map(prop => prop.name), ['title', 'size']);
+            assert.strictEqual(meta.dynamicProps, false);
+        });
+
+        test('marks runtime props as dynamic when an object is spread', () => {
+            const meta = parseSetup([
+                `import { sharedProps } from './shared'`,
+                `defineProps({ ...sharedProps, title: String })`
+            ].join('\n'));
+
+            assert.ok(meta.props.some(prop => prop.name === 'title'));
+            assert.strictEqual(meta.dynamicProps, true);
+        });
+    });
+
+    suite('withDefaults', () => {
+        test('applies defaults and unwraps factories', () => {
+            const meta = parseSetup([
+                `withDefaults(defineProps<{ size?: string; items?: string[] }>(), {`,
+                `    size: 'md',`,
+                `    items: () => []`,
+                `})`
+            ].join('\n'));
+
+            assert.strictEqual(getProp(meta, 'size').default, `'md'`);
+            assert.strictEqual(getProp(meta, 'items').default, '[]');
+        });
+
+        test('reads defaults from a destructured defineProps', () => {
+            const meta = parseSetup(`const { size = 'md' } = defineProps<{ size?: string }>()`);
+
+            assert.strictEqual(getProp(meta, 'size').default, `'md'`);
+        });
+    });
+
+    suite('getLiteralValues', () => {
+        test('keeps string, number and boolean literals and ignores undefined', () => {
+            const meta = parseSetup(`defineProps<{ level?: 1 | 2 | undefined; open?: true | false; mode: 'a' | 'b' | null }>()`);
+
+            assert.deepStrictEqual(getProp(meta, 'level').values, ['1', '2']);
+            assert.deepStrictEqual(getProp(meta, 'open').values, ['true', 'false']);
+            assert.deepStrictEqual(getProp(meta, 'mode').values, [`'a'`, `'b'`]);
+        });
+
+        test('gives no values for a union with a non-literal member', () => {
+            const meta = parseSetup(`defineProps<{ value: 'auto' | number }>()`);
+
+            assert.strictEqual(getProp(meta, 'value').values, undefined);
+        });
+    });
+
+    suite('defineModel', () => {
+        test('declares modelValue and its update event by default', () => {
+            const meta = parseSetup(`const value = defineModel<string>()`);
+
+            assert.deepStrictEqual(meta.models.map(model => model.name), ['modelValue']);
+            assert.ok(meta.props.some(prop => prop.name === 'modelValue'));
+            assert.ok(meta.emits.includes('update:modelValue'));
+        });
+
+        test('reads the model name and its options', () => {
+            const meta = parseSetup(`const count = defineModel('count', { type: Number, required: true })`);
+
+            assert.strictEqual(getProp(meta, 'count').required, true);
+            assert.strictEqual(getProp(meta, 'count').type, 'number');
+            assert.ok(meta.emits.includes('update:count'));
+        });
+
+        test('reads literal values from the type argument', () => {
+            const meta = parseSetup(`const mode = defineModel<'light' | 'dark'>('mode')`);
+
+            assert.deepStrictEqual(getProp(meta, 'mode').values, [`'light'`, `'dark'`]);
+        });
+    });
+
+    suite('defineEmits and slots', () => {
+        test('reads call signatures and the named tuple form', () => {
+            const signatures = parseSetup(`defineEmits<{ (e: 'open'): void; (e: 'close', reason: string): void }>()`);
+            const tuples = parseSetup(`defineEmits<{ open: []; close: [reason: string] }>()`);
+
+            assert.deepStrictEqual(signatures.emits, ['open', 'close']);
+            assert.deepStrictEqual(tuples.emits, ['open', 'close']);
+        });
+
+        test('reads runtime emits', () => {
+            const meta = parseSetup(`defineEmits(['open', 'close'])`);
+
+            assert.deepStrictEqual(meta.emits, ['open', 'close']);
+            assert.strictEqual(meta.dynamicEmits, false);
+        });
+
+        test('reads template slots and flags dynamic names', () => {
+            const meta = parseSetup('', `<div><slot /><slot name="footer" /><slot :name="tab" /></div>`);
+
+            assert.deepStrictEqual(meta.slots, ['default', 'footer']);
+            assert.strictEqual(meta.dynamicSlots, true);
+        });
+
+        test('reads defineSlots', () => {
+            const meta = parseSetup(`defineSlots<{ default(): any; header(props: { title: string }): any }>()`);
+
+            assert.deepStrictEqual(meta.slots, ['default', 'header']);
+        });
+    });
+
+    suite('Options API', () => {
+        test('reads props and emits and marks mixins as dynamic', () => {
+            const meta = ComponentParser.parse(vueFile([
+                `import { defineComponent } from 'vue'`,
+                `import shared from './shared'`,
+                `export default defineComponent({`,
+                `    mixins: [shared],`,
+                `    props: { title: { type: String, required: true } },`,
+                `    emits: ['open']`,
+                `})`
+            ].join('\n'), '', 'lang="ts"'), 'Fixture.vue');
+
+            assert.strictEqual(getProp(meta, 'title').required, true);
+            assert.deepStrictEqual(meta.emits, ['open']);
+            assert.strictEqual(meta.dynamicProps, true);
+            assert.strictEqual(meta.dynamicEmits, true);
+        });
+    });
+});
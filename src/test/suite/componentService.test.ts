@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { NuxtProjectContext } from '../../project/NuxtProjectContext';
+import { createFixture, fixturePath, removeFixture, vueFile } from './fixtures';
+
+suite('ComponentService', () => {
+    let root: string;
+    let context: NuxtProjectContext;
+
+    setup(async () => {
+        root = createFixture({
+            'nuxt.config.ts': 'export default defineNuxtConfig({})\n',
+            'components/ItemList.vue': '<template><ul><slot name="itemHeader" /><slot name="footer-actions" /></ul></template>\n',
+            'components/UserCard.vue': vueFile(`defineProps<{ userId: number; size?: 'sm' | 'md' }>()`, '<div />'),
+            'components/ToggleButton.vue': vueFile(`defineEmits<{ toggle: [value: boolean]; 'update:modelValue': [value: boolean] }>()`, '<button />'),
+            'pages/settings.vue': vueFile('', '<ToggleButton @toggle="onToggle" @update:model-value="onUpdate" @pointerdown="onPointer" @vue:mounted="onMounted" @toggled="onToggled" />'),
+            'pages/users.vue': vueFile('', [
+                `<UserCard :user-id="1" size="sm" placeholder="Static attributes fall through" :unknown-prop="1" />`,
+                `<UserCard v-bind="cardProps" />`,
+                `<UserCard size="md" />`
+            ].join('')),
+            'pages/index.vue': [
+                `<template>`,
+                `    <ItemList>`,
+                `        <template #item-header>Header</template>`,
+                `        <template #footerActions>Actions</template>`,
+                `        <template #missing>Missing</template>`,
+                `    </ItemList>`,
+                `</template>`,
+                ``
+            ].join('\n')
+        });
+
+        context = new NuxtProjectContext(root);
+
+        await context.ready();
+    });
+
+    teardown(() => {
+        context.dispose();
+        removeFixture(root);
+    });
+
+    suite('provideDiagnostics', () => {
+        test('reports unknown bound props and missing required props', async () => {
+            const page = await vscode.workspace.openTextDocument(fixturePath(root, 'pages/users.vue'));
+            const diagnostics = await context.componentService.provideDiagnostics(page);
+
+            assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.message), [
+                'Unknown prop "unknownProp" on <UserCard>',
+                'Missing required prop "userId" on <UserCard>'
+            ]);
+        });
+
+        test('reports listeners the component never emits, except DOM events and vnode hooks', async () => {
+            const page = await vscode.workspace.openTextDocument(fixturePath(root, 'pages/settings.vue'));
+            const diagnostics = await context.componentService.provideDiagnostics(page);
+
+            assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.message), ['<ToggleButton> never emits "toggled"']);
+        });
+
+        test('matches slot fills and declarations whatever their case', async () => {
+            const page = await vscode.workspace.openTextDocument(fixturePath(root, 'pages/index.vue'));
+            const diagnostics = await context.componentService.provideDiagnostics(page);
+
+            assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.message), ['<ItemList> has no slot "missing"']);
+        });
+    });
+});
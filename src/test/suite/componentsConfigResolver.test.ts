@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { ComponentsConfigResolver } from '../../config/ComponentsConfigResolver';
+import { componentsDir, fixturePath } from './fixtures';
+
+const root = path.join(path.sep, 'project');
+
+suite('ComponentsConfigResolver', () => {
+    suite('resolve', () => {
+        test('uses the default directories, the most specific first', () => {
+            const dirs = ComponentsConfigResolver.resolve({}, root);
+
+            assert.deepStrictEqual(dirs.map(dir => [dir.path, dir.global, dir.island]), [
+                [fixturePath(root, 'components/islands'), false, true],
+                [fixturePath(root, 'components/global'), true, false],
+                [fixturePath(root, 'components'), false, false]
+            ]);
+        });
+
+        test('keeps the default directories when only global is set', () => {
+            const dirs = ComponentsConfigResolver.resolve({ components: { global: true } }, root);
+
+            assert.strictEqual(dirs.length, 3);
+            assert.ok(dirs.every(dir => dir.global));
+        });
+
+        test('reads prefix, pathPrefix and extensions of each directory', () => {
+            const dirs = ComponentsConfigResolver.resolve({
+                components: {
+                    dirs: [
+                        '~/components',
+                        { path: '~/ui', prefix: 'Ui', pathPrefix: false, extensions: ['.vue'] },
+                        { path: '~/disabled', enabled: false }
+                    ]
+                }
+            }, root, fixturePath(root, 'app'));
+
+            assert.deepStrictEqual(dirs, [
+                componentsDir(fixturePath(root, 'app/components'), { extensions: ComponentsConfigResolver.defaultExtensions }),
+                componentsDir(fixturePath(root, 'app/ui'), { prefix: 'Ui', pathPrefix: false })
+            ]);
+        });
+
+        test('disables every directory with false', () => {
+            assert.deepStrictEqual(ComponentsConfigResolver.resolve({ components: false }, root), []);
+        });
+    });
+
+    suite('isComponentFile', () => {
+        test('accepts the configured extensions and ignores declaration files', () => {
+            const dir = componentsDir(fixturePath(root, 'components'), { extensions: ['vue', 'ts'] });
+
+            assert.strictEqual(ComponentsConfigResolver.isComponentFile(fixturePath(root, 'components/Card.vue'), dir), true);
+            assert.strictEqual(ComponentsConfigResolver.isComponentFile(fixturePath(root, 'components/Card.ts'), dir), true);
+            assert.strictEqual(ComponentsConfigResolver.isComponentFile(fixturePath(root, 'components/Card.d.ts'), dir), false);
+            assert.strictEqual(ComponentsConfigResolver.isComponentFile(fixturePath(root, 'components/Card.jsx'), dir), false);
+            assert.strictEqual(ComponentsConfigResolver.isComponentFile(fixturePath(root, 'componentsExtra/Card.vue'), dir), false);
+        });
+    });
+});
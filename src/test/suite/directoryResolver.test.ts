@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { DirectoryResolver } from '../../config/DirectoryResolver';
+import { LayerResolver } from '../../config/LayerResolver';
+import { createFixture, fixturePath, removeFixture } from './fixtures';
+
+suite('DirectoryResolver', () => {
+    let root: string;
+
+    teardown(() => removeFixture(root));
+
+    suite('getNuxtMajorVersion', () => {
+        test('prefers the compatibility version, then the installed version over package.json', () => {
+            root = createFixture({
+                'package.json': JSON.stringify({ devDependencies: { nuxt: '^3.12.0' } }),
+                'apps/web/package.json': JSON.stringify({ dependencies: { nuxt: '^3.12.0' } }),
+                'node_modules/nuxt/package.json': JSON.stringify({ version: '4.1.0' })
+            });
+
+            assert.strictEqual(DirectoryResolver.getNuxtMajorVersion(root, { future: { compatibilityVersion: 4 } }), 4);
+            // Dépendances hissées à la racine du monorepo
+            assert.strictEqual(DirectoryResolver.getNuxtMajorVersion(fixturePath(root, 'apps/web'), {}), 4);
+        });
+
+        test('falls back to the declared dependency', () => {
+            root = createFixture({ 'package.json': JSON.stringify({ devDependencies: { nuxt: '^4.0.0' } }) });
+
+            assert.strictEqual(DirectoryResolver.getNuxtMajorVersion(root, {}), 4);
+        });
+    });
+
+    suite('resolve', () => {
+        test('uses the app directory in Nuxt 4 and shared utils at the root', () => {
+            root = createFixture({ 'app/app.vue': '<template><NuxtPage /></template>\n' });
+
+            const dirs = DirectoryResolver.resolve(root, {}, 4);
+
+            assert.strictEqual(dirs.srcDir, fixturePath(root, 'app'));
+            assert.strictEqual(dirs.pages, fixturePath(root, 'app/pages'));
+            assert.deepStrictEqual(dirs.utils, [fixturePath(root, 'app/utils'), fixturePath(root, 'shared/utils')]);
+            assert.strictEqual(dirs.server, fixturePath(root, 'server'));
+        });
+
+        test('keeps the root in Nuxt 4 when app.vue stays at the root', () => {
+            root = createFixture({ 'app.vue': '<template><NuxtPage /></template>\n', 'app/router.options.ts': 'export default {}\n' });
+
+            assert.strictEqual(DirectoryResolver.resolve(root, {}, 4).srcDir, root);
+        });
+
+        test('reads srcDir, dir, imports.dirs and pinia.storesDirs', () => {
+            root = createFixture({});
+
+            const dirs = DirectoryResolver.resolve(root, {
+                srcDir: 'src',
+                dir: { pages: 'views', layouts: '~/templates' },
+                imports: { dirs: ['queries/**'] },
+                pinia: { storesDirs: ['~/state'] }
+            });
+
+            assert.strictEqual(dirs.srcDir, fixturePath(root, 'src'));
+            assert.strictEqual(dirs.pages, fixturePath(root, 'src/views'));
+            assert.strictEqual(dirs.layouts, fixturePath(root, 'src/templates'));
+            assert.deepStrictEqual(dirs.composables, [fixturePath(root, 'src/composables'), fixturePath(root, 'src/queries')]);
+            assert.deepStrictEqual(dirs.stores, [fixturePath(root, 'src/state')]);
+            assert.strictEqual(dirs.server, fixturePath(root, 'src/server'));
+        });
+    });
+
+    suite('getFileRoles', () => {
+        test('classifies files with the directories of their own layer', () => {
+            root = createFixture({
+                'nuxt.config.ts': `export default defineNuxtConfig({ dir: { pages: 'views' } })\n`,
+                'layers/base/nuxt.config.ts': 'export default defineNuxtConfig({})\n'
+            });
+
+            const layers = LayerResolver.resolve(root);
+            const rolesOf = (relativePath: string) => Object.entries(DirectoryResolver.getFileRoles(layers, fixturePath(root, relativePath)))
+                .filter(([, value]) => value)
+                .map(([role]) => role);
+
+            assert.deepStrictEqual(rolesOf('views/index.vue'), ['page']);
+            assert.deepStrictEqual(rolesOf('pages/index.vue'), []);
+            assert.deepStrictEqual(rolesOf('layers/base/pages/index.vue'), ['page']);
+            assert.deepStrictEqual(rolesOf('layers/base/components/Card.vue'), ['component']);
+            assert.deepStrictEqual(rolesOf('composables/useCounter.ts'), ['composable']);
+        });
+    });
+});
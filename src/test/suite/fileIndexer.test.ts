@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { FileIndexer } from '../../index/FileIndexer';
+import { IndexedDefinition } from '../../types';
+import { fixturePath, vueFile } from './fixtures';
+
+const root = path.join(path.sep, 'project');
+
+function getDefinitions(relativePath: string, content: string): Pick<IndexedDefinition, 'kind' | 'name'>[] {
+    return FileIndexer.indexFile(fixturePath(root, relativePath), content, 0, content.length).definitions
+        .map(({ kind, name }) => ({ kind, name }));
+}
+
+function getDynamicComponents(relativePath: string, content: string): string[] {
+    return FileIndexer.indexFile(fixturePath(root, relativePath), content, 0, content.length).usages
+        .filter(usage => usage.kind === 'dynamicComponent')
+        .map(usage => usage.name);
+}
+
+suite('FileIndexer', () => {
+    suite('definitions', () => {
+        test('names exported composables after their declaration', () => {
+            assert.deepStrictEqual(getDefinitions('composables/counter.ts', 'export const useCounter = () => 0\nexport async function useTimer() {}\n'), [
+                { kind: 'composable', name: 'useCounter' },
+                { kind: 'composable', name: 'useTimer' }
+            ]);
+        });
+
+        test('names default exports after the file, as Nuxt auto-imports them', () => {
+            assert.deepStrictEqual(getDefinitions('composables/use-counter.ts', 'export default function counter() {}\n'), [{ kind: 'composable', name: 'useCounter' }]);
+            assert.deepStrictEqual(getDefinitions('composables/useTimer.ts', 'export default () => 0\n'), [{ kind: 'composable', name: 'useTimer' }]);
+            assert.deepStrictEqual(getDefinitions('composables/useAuth/index.ts', 'export default function () {}\n'), [{ kind: 'composable', name: 'useAuth' }]);
+            assert.deepStrictEqual(getDefinitions('utils/format-date.ts', 'export default function format() {}\n'), [{ kind: 'util', name: 'formatDate' }]);
+        });
+
+        test('reads components, layouts and stores', () => {
+            assert.deepStrictEqual(getDefinitions('components/UserCard.vue', vueFile('', '<div />')), [{ kind: 'component', name: 'UserCard' }]);
+            assert.deepStrictEqual(getDefinitions('layouts/default.vue', vueFile('', '<slot />')), [{ kind: 'layout', name: 'default' }]);
+            assert.deepStrictEqual(getDefinitions('stores/cart.ts', `export const useCartStore = defineStore('cart', {})\n`), [{ kind: 'store', name: 'cart' }]);
+        });
+    });
+
+    suite('dynamic component usages', () => {
+        test('follows the values that reach :is and resolveComponent', () => {
+            const content = vueFile([
+                `// 'CommentedOut'`,
+                `const views = { home: 'HomeView', 'settings-key': 'SettingsView' }`,
+                `const tabs = ['TabOne', TabTwo]`,
+                `const label = 'Hello'`,
+                `const current = computed(() => views[route.name])`,
+                `const other = resolveComponent('OtherThing')`,
+                `log('Dummy')`
+            ].join('\n'), [
+                `<component :is="current" />`,
+                `<component :is="ok ? 'UserCard' : 'user-avatar'" />`,
+                `<component v-bind:is="tabs[index]" />`,
+                `<p>{{ t('Home') }}</p>`
+            ].join(''));
+
+            assert.deepStrictEqual(getDynamicComponents('pages/index.vue', content).sort(), ['HomeView', 'OtherThing', 'SettingsView', 'TabOne', 'UserCard', 'user-avatar']);
+        });
+
+        test('reads resolveComponent in scripts', () => {
+            const content = `// resolveComponent('Commented')\nconst Dialog = resolveComponent(flag ? 'FooBar' : 'baz-qux')\nconst label = 'Nope'\n`;
+
+            assert.deepStrictEqual(getDynamicComponents('composables/useDialog.ts', content).sort(), ['FooBar', 'baz-qux']);
+        });
+    });
+});
@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResolvedComponentsDir } from '../../types';
+
+/**
+ * Fixtures partagées par les suites : composants monofichiers et projets Nuxt temporaires
+ */
+
+/**
+ * Composant monofichier dont le `<script>` et le template sont donnés par le test
+ */
+export function vueFile(script: string, template = '', scriptAttributes = 'setup lang="ts"'): string {
+    return `<script ${scriptAttributes}>\n${script}\n</script>\n<template>${template}</template>\n`;
+}
+
+/**
+ * Chemin absolu d'un fichier de fixture, écrit avec des `/` quel que soit le système
+ */
+export function fixturePath(root: string, relativePath: string): string {
+    return path.join(root, ...relativePath.split('/'));
+}
+
+/**
+ * Crée un projet temporaire : chaque clé est un chemin relatif à la racine, chaque valeur le contenu du fichier
+ */
+export function createFixture(files: Record<string, string>): string {
+    const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'nuxt-intellisense-')));
+
+    Object.entries(files).forEach(([relativePath, content]) => writeFixtureFile(root, relativePath, content));
+
+    return root;
+}
+
+export function writeFixtureFile(root: string, relativePath: string, content: string): string {
+    const filePath = fixturePath(root, relativePath);
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+
+    return filePath;
+}
+
+export function removeFixture(root: string): void {
+    fs.rmSync(root, { recursive: true, force: true });
+}
+
+/**
+ * Dossier de composants avec les options par défaut de Nuxt
+ */
+export function componentsDir(dirPath: string, options: Partial<ResolvedComponentsDir> = {}): ResolvedComponentsDir {
+    return { path: dirPath, prefix: '', pathPrefix: true, global: false, island: false, extensions: ['vue'], ...options };
+}
+
+export function sleep(milliseconds: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * Attend qu'une condition devienne vraie, par exemple après une mise à jour différée
+ */
+export async function waitFor(condition: () => boolean, timeout = 3000): Promise<void> {
+    const start = Date.now();
+
+    while (!condition()) {
+        if (Date.now() - start > timeout) {
+            throw new Error('Timed out waiting for condition');
+        }
+
+        await sleep(20);
+    }
+}
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { LayerResolver } from '../../config/LayerResolver';
+import { createFixture, fixturePath, removeFixture } from './fixtures';
+
+suite('LayerResolver', () => {
+    let root: string;
+
+    setup(() => {
+        root = createFixture({
+            'app/nuxt.config.ts': [
+                `export default defineNuxtConfig({`,
+                `    extends: [`,
+                `        '../base/nuxt.config',`,
+                `        ['@acme/theme', { install: true }],`,
+                `        'github:acme/remote-layer',`,
+                `        '../missing'`,
+                `    ]`,
+                `})`
+            ].join('\n'),
+            'app/layers/admin/nuxt.config.ts': 'export default defineNuxtConfig({})\n',
+            'app/layers/blog/nuxt.config.ts': 'export default defineNuxtConfig({})\n',
+            'app/components/Card.vue': '<template><div /></template>\n',
+            'base/nuxt.config.ts': `export default defineNuxtConfig({ extends: ['../app'] })\n`,
+            'base/components/Card.vue': '<template><div /></template>\n',
+            'node_modules/@acme/theme/nuxt.config.ts': 'export default defineNuxtConfig({})\n'
+        });
+    });
+
+    teardown(() => removeFixture(root));
+
+    test('orders the project, its local layers (Z to A) and the extends entries', () => {
+        const layers = LayerResolver.resolve(fixturePath(root, 'app'));
+
+        assert.deepStrictEqual(layers.map(layer => [layer.rootDir, layer.priority]), [
+            [fixturePath(root, 'app'), 0],
+            [fixturePath(root, 'app/layers/blog'), 1],
+            [fixturePath(root, 'app/layers/admin'), 2],
+            [fixturePath(root, 'base'), 3],
+            [fixturePath(root, 'node_modules/@acme/theme'), 4]
+        ]);
+    });
+
+    test('resolves overrides to the definition of the most important layer', () => {
+        const layers = LayerResolver.resolve(fixturePath(root, 'app'));
+        const projectCard = fixturePath(root, 'app/components/Card.vue');
+        const baseCard = fixturePath(root, 'base/components/Card.vue');
+
+        assert.strictEqual(LayerResolver.findLayer(layers, fixturePath(root, 'app/layers/blog/pages/index.vue'))?.rootDir, fixturePath(root, 'app/layers/blog'));
+        assert.strictEqual(LayerResolver.resolveOverride(layers, [baseCard, projectCard]), projectCard);
+        assert.strictEqual(LayerResolver.findOverridingFile(layers, baseCard, [baseCard, projectCard]), projectCard);
+        assert.strictEqual(LayerResolver.findOverridingFile(layers, projectCard, [baseCard, projectCard]), undefined);
+    });
+});
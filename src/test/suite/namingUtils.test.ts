@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { NamingUtils } from '../../utils/namingUtils';
+import { ResolvedComponentsDir } from '../../types';
+import { componentsDir, fixturePath } from './fixtures';
+
+const componentsPath = path.join(path.sep, 'project', 'components');
+
+function resolve(relativePath: string, options: Partial<ResolvedComponentsDir> = {}): string {
+    return NamingUtils.resolveComponentName(fixturePath(componentsPath, relativePath), componentsDir(componentsPath, options));
+}
+
+suite('NamingUtils', () => {
+    suite('resolveComponentName', () => {
+        test('prefixes the name with its directories', () => {
+            assert.strictEqual(resolve('Button.vue'), 'Button');
+            assert.strictEqual(resolve('user/Card.vue'), 'UserCard');
+            assert.strictEqual(resolve('base/form/Input.vue'), 'BaseFormInput');
+            assert.strictEqual(resolve('user-card.vue'), 'UserCard');
+        });
+
+        test('does not repeat a directory already present in the file name', () => {
+            assert.strictEqual(resolve('user/UserCard.vue'), 'UserCard');
+            assert.strictEqual(resolve('base/form/BaseFormInput.vue'), 'BaseFormInput');
+        });
+
+        test('strips the mode and registration suffixes', () => {
+            assert.strictEqual(resolve('Chart.client.vue'), 'Chart');
+            assert.strictEqual(resolve('Chart.server.vue'), 'Chart');
+            assert.strictEqual(resolve('Modal.global.vue'), 'Modal');
+            assert.strictEqual(resolve('Hero.island.vue'), 'Hero');
+            assert.strictEqual(resolve('charts/Line.client.global.vue'), 'ChartsLine');
+        });
+
+        test('names index files after their directory', () => {
+            assert.strictEqual(resolve('user/index.vue'), 'User');
+            assert.strictEqual(resolve('user/index.vue', { pathPrefix: false }), 'User');
+        });
+
+        test('applies the directory prefix', () => {
+            assert.strictEqual(resolve('forms/Input.vue', { prefix: 'Ui', pathPrefix: false }), 'UiInput');
+            assert.strictEqual(resolve('forms/Input.vue', { prefix: 'Ui' }), 'UiFormsInput');
+        });
+    });
+
+    suite('getComponentMode', () => {
+        test('reads the mode from the suffix', () => {
+            assert.strictEqual(NamingUtils.getComponentMode('Chart.client.vue'), 'client');
+            assert.strictEqual(NamingUtils.getComponentMode('Chart.server.global.vue'), 'server');
+            assert.strictEqual(NamingUtils.getComponentMode('Chart.vue'), 'all');
+        });
+    });
+
+    suite('case conversion', () => {
+        test('splits and joins names', () => {
+            assert.deepStrictEqual(NamingUtils.splitByCase('userCard-item'), ['user', 'Card', 'item']);
+            assert.strictEqual(NamingUtils.pascalCase('user-card'), 'UserCard');
+            assert.strictEqual(NamingUtils.camelize('user-card'), 'userCard');
+        });
+    });
+});
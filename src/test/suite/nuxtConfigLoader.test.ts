@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { NuxtConfigLoader } from '../../config/NuxtConfigLoader';
+import { createFixture, fixturePath, removeFixture } from './fixtures';
+
+const root = path.join(path.sep, 'project');
+const configPath = fixturePath(root, 'nuxt.config.ts');
+
+suite('NuxtConfigLoader', () => {
+    suite('parse', () => {
+        test('reads the literal values passed to defineNuxtConfig', () => {
+            const config = NuxtConfigLoader.parse([
+                `export default defineNuxtConfig({`,
+                `    srcDir: 'src',`,
+                `    ssr: false,`,
+                `    future: { compatibilityVersion: 4 },`,
+                `    extends: ['../base', ['github:org/layer', { install: true }]]`,
+                `})`
+            ].join('\n'), configPath);
+
+            assert.deepStrictEqual(config, {
+                srcDir: 'src',
+                ssr: false,
+                future: { compatibilityVersion: 4 },
+                extends: ['../base', ['github:org/layer', { install: true }]]
+            });
+        });
+
+        test('follows top-level constants, spreads and path helpers', () => {
+            const config = NuxtConfigLoader.parse([
+                `import { resolve } from 'path'`,
+                `const componentsDir = resolve(__dirname, 'ui')`,
+                `const shared = { prefix: 'Ui' }`,
+                `const dirs = [componentsDir]`,
+                `export default {`,
+                `    components: { dirs: [...dirs, { path: '~/forms', ...shared }] }`,
+                `}`
+            ].join('\n'), configPath);
+
+            assert.deepStrictEqual(config, {
+                components: { dirs: [fixturePath(root, 'ui'), { path: '~/forms', prefix: 'Ui' }] }
+            });
+        });
+
+        test('leaves values that are not static undefined', () => {
+            const config = NuxtConfigLoader.parse(`export default defineNuxtConfig({ srcDir: process.env.SRC_DIR, modules: [someModule()] })`, configPath);
+
+            assert.deepStrictEqual(config, { srcDir: undefined, modules: [undefined] });
+        });
+    });
+
+    suite('load', () => {
+        test('reads the first config file of a directory', () => {
+            const fixtureRoot = createFixture({
+                'nuxt.config.js': `export default defineNuxtConfig({ srcDir: 'js' })\n`,
+                'nuxt.config.ts': `export default defineNuxtConfig({ srcDir: 'ts' })\n`
+            });
+
+            try {
+                assert.strictEqual(NuxtConfigLoader.findConfigFile(fixtureRoot), fixturePath(fixtureRoot, 'nuxt.config.ts'));
+                assert.deepStrictEqual(NuxtConfigLoader.load(fixtureRoot), { srcDir: 'ts' });
+            } finally {
+                removeFixture(fixtureRoot);
+            }
+        });
+    });
+
+    suite('resolveAlias', () => {
+        test('resolves the Nuxt aliases against the root and source directories', () => {
+            const srcDir = fixturePath(root, 'app');
+
+            assert.strictEqual(NuxtConfigLoader.resolveAlias('~/components', root, srcDir), fixturePath(srcDir, 'components'));
+            assert.strictEqual(NuxtConfigLoader.resolveAlias('@/components', root, srcDir), fixturePath(srcDir, 'components'));
+            assert.strictEqual(NuxtConfigLoader.resolveAlias('~~/layers', root, srcDir), fixturePath(root, 'layers'));
+            assert.strictEqual(NuxtConfigLoader.resolveAlias('@@', root, srcDir), root);
+            assert.strictEqual(NuxtConfigLoader.resolveAlias('components', root, srcDir), fixturePath(srcDir, 'components'));
+        });
+    });
+});
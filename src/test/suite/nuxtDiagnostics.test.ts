@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { NuxtDiagnostics } from '../../providers/NuxtDiagnostics';
+import { NuxtProjectContext } from '../../project/NuxtProjectContext';
+import { ProjectManager } from '../../project/ProjectManager';
+import { IndexUpdate } from '../../index/ProjectIndex';
+import { createFixture, fixturePath, removeFixture, sleep, waitFor } from './fixtures';
+
+/**
+ * Contexte minimal qui compte les calculs de collisions
+ */
+function createFakeContext(rootDir: string) {
+    const onDidUpdate = new vscode.EventEmitter<IndexUpdate>();
+
+    const context = {
+        rootDir,
+        scans: 0,
+        projectIndex: { onDidUpdate: onDidUpdate.event, readContent: async () => '' },
+        componentService: { provideDiagnostics: async () => [] },
+        ready: async () => undefined,
+        findNameCollisions: async () => {
+            context.scans++;
+
+            return [];
+        },
+        fireUpdate: () => onDidUpdate.fire({ paths: [], previousUsages: new Map() })
+    };
+
+    return context;
+}
+
+suite('NuxtDiagnostics', function () {
+    this.timeout(10000);
+
+    let root: string;
+
+    setup(() => {
+        root = createFixture({
+            'nuxt.config.ts': 'export default defineNuxtConfig({})\n',
+            'composables/useCounter.ts': 'export function useCounter() {}\n',
+            'utils/counter.ts': 'export const useCounter = () => 0\n',
+            'components/BaseButton.vue': '<template><button /></template>\n',
+            'components/base/Button.vue': '<template><button /></template>\n'
+        });
+    });
+
+    teardown(() => removeFixture(root));
+
+    test('finds component and auto-import collisions on every definition file', async () => {
+        const context = new NuxtProjectContext(root);
+
+        try {
+            await context.ready();
+
+            const collisions = await context.findNameCollisions();
+            const describe = (filePath: string) => collisions
+                .filter(collision => collision.definition.filePath === filePath)
+                .map(collision => `${collision.definition.name} ${collision.others.map(other => other.filePath).join(',')}`);
+
+            assert.deepStrictEqual(describe(fixturePath(root, 'components/BaseButton.vue')), [`BaseButton ${fixturePath(root, 'components/base/Button.vue')}`]);
+            assert.deepStrictEqual(describe(fixturePath(root, 'components/base/Button.vue')), [`BaseButton ${fixturePath(root, 'components/BaseButton.vue')}`]);
+            assert.deepStrictEqual(describe(fixturePath(root, 'composables/useCounter.ts')), [`useCounter ${fixturePath(root, 'utils/counter.ts')}`]);
+            assert.deepStrictEqual(describe(fixturePath(root, 'utils/counter.ts')), [`useCounter ${fixturePath(root, 'composables/useCounter.ts')}`]);
+        } finally {
+            context.dispose();
+        }
+    });
+
+    test('computes collisions only for existing contexts and recomputes the one whose index changed', async () => {
+        const opened = createFakeContext(root);
+        const other = createFakeContext(root);
+
+        const projectManager = {
+            getContext: async () => opened,
+            getContexts: () => [opened, other],
+            getAllContexts: async () => assert.fail('collisions must not create the contexts of every app')
+        } as unknown as ProjectManager;
+
+        const diagnostics = new NuxtDiagnostics(projectManager);
+
+        try {
+            await vscode.workspace.openTextDocument(fixturePath(root, 'composables/useCounter.ts'));
+
+            await waitFor(() => opened.scans === 1);
+
+            // Plusieurs mises à jour rapprochées ne donnent qu'un seul calcul
+            opened.fireUpdate();
+            opened.fireUpdate();
+
+            await waitFor(() => opened.scans === 2);
+            await sleep(1000);
+
+            assert.strictEqual(opened.scans, 2);
+            assert.strictEqual(other.scans, 0);
+        } finally {
+            diagnostics.dispose();
+        }
+    });
+});
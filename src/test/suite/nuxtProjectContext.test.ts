@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { NuxtProjectContext } from '../../project/NuxtProjectContext';
+import { createFixture, fixturePath, removeFixture, vueFile } from './fixtures';
+
+/**
+ * Document qui compte les lectures de son contenu complet
+ */
+function trackReads(document: vscode.TextDocument, version = document.version) {
+    const tracked = {
+        reads: 0,
+        document: Object.create(document, {
+            version: { value: version },
+            getText: {
+                value: (range?: vscode.Range) => {
+                    tracked.reads += range ? 0 : 1;
+
+                    return document.getText(range);
+                }
+            }
+        }) as vscode.TextDocument
+    };
+
+    return tracked;
+}
+
+suite('NuxtProjectContext', () => {
+    let root: string;
+    let context: NuxtProjectContext;
+
+    setup(async () => {
+        root = createFixture({
+            'nuxt.config.ts': 'export default defineNuxtConfig({})\n',
+            'components/user/Card.vue': vueFile('', '<div />'),
+            'composables/useCounter.ts': 'export function useCounter() {}\n',
+            'pages/index.vue': vueFile('const counter = useCounter()', '<UserCard />')
+        });
+
+        context = new NuxtProjectContext(root);
+
+        await context.ready();
+    });
+
+    teardown(() => {
+        context.dispose();
+        removeFixture(root);
+    });
+
+    suite('getSymbolAt', () => {
+        test('finds component tags and composable calls', async () => {
+            const page = await vscode.workspace.openTextDocument(fixturePath(root, 'pages/index.vue'));
+
+            assert.deepStrictEqual(await context.getSymbolAt(page, new vscode.Position(1, 18)), { kind: 'composable', name: 'useCounter', line: 1, character: 16, length: 10 });
+            assert.deepStrictEqual(await context.getSymbolAt(page, new vscode.Position(3, 12)), { kind: 'component', name: 'UserCard', line: 3, character: 11, length: 8 });
+        });
+
+        test('parses each document version once', async () => {
+            const page = await vscode.workspace.openTextDocument(fixturePath(root, 'pages/index.vue'));
+            const tracked = trackReads(page);
+
+            await context.getSymbolAt(tracked.document, new vscode.Position(3, 12));
+            await context.getSymbolAt(tracked.document, new vscode.Position(3, 14));
+
+            assert.strictEqual(tracked.reads, 1);
+
+            const edited = trackReads(page, page.version + 1);
+
+            await context.getSymbolAt(edited.document, new vscode.Position(3, 12));
+
+            assert.strictEqual(edited.reads, 1);
+        });
+    });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { NuxtRenameProvider } from '../../providers/NuxtRenameProvider';
+import { NuxtProjectContext } from '../../project/NuxtProjectContext';
+import { ProjectManager } from '../../project/ProjectManager';
+import { createFixture, fixturePath, removeFixture } from './fixtures';
+
+suite('NuxtRenameProvider', () => {
+    let root: string;
+    let context: NuxtProjectContext;
+    let provider: NuxtRenameProvider;
+
+    setup(async () => {
+        root = createFixture({
+            'nuxt.config.ts': 'export default defineNuxtConfig({})\n',
+            'components/Chart.client.vue': '<template><canvas /></template>\n',
+            'components/Chart.server.vue': '<template><svg /></template>\n',
+            'pages/index.vue': [
+                `<script setup lang="ts">`,
+                `import ClientChart from '~/components/Chart.client.vue'`,
+                `import ServerChart from '~/components/Chart.server.vue'`,
+                `</script>`,
+                `<template><Chart /></template>`,
+                ``
+            ].join('\n')
+        });
+
+        context = new NuxtProjectContext(root);
+        provider = new NuxtRenameProvider({ getContext: async () => context } as unknown as ProjectManager);
+
+        await context.ready();
+    });
+
+    teardown(() => {
+        provider.dispose();
+        context.dispose();
+        removeFixture(root);
+    });
+
+    test('renames every variant, updates each path import and edits the tag once', async () => {
+        const page = await vscode.workspace.openTextDocument(fixturePath(root, 'pages/index.vue'));
+        const edit = await provider.provideRenameEdits(page, new vscode.Position(4, 12), 'Graph');
+
+        assert.ok(edit);
+
+        const pageEdits = edit.get(page.uri).map(textEdit => `${textEdit.range.start.line}:${textEdit.range.start.character} ${textEdit.newText}`).sort();
+
+        assert.deepStrictEqual(pageEdits, [
+            `1:25 ~/components/Graph.client.vue`,
+            `2:25 ~/components/Graph.server.vue`,
+            `4:11 Graph`
+        ]);
+    });
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { ProjectIndex, IndexUpdate } from '../../index/ProjectIndex';
+import { IndexStorage } from '../../index/IndexStorage';
+import { IndexedFile } from '../../types';
+import { createFixture, fixturePath, removeFixture, vueFile, writeFixtureFile } from './fixtures';
+
+suite('ProjectIndex', () => {
+    let root: string;
+    let index: ProjectIndex;
+
+    setup(() => {
+        root = createFixture({
+            'components/UserCard.vue': vueFile('', '<div />'),
+            'pages/index.vue': vueFile('const counter = useCounter()', '<UserCard />'),
+            'composables/useCounter.ts': 'export function useCounter() {}\n',
+            'node_modules/dep/index.ts': 'export function useDependency() {}\n'
+        });
+    });
+
+    teardown(() => {
+        index.dispose();
+        removeFixture(root);
+    });
+
+    test('indexes the definitions and usages of the layer files', async () => {
+        index = new ProjectIndex(undefined, [root]);
+
+        await index.ready();
+
+        assert.deepStrictEqual(index.getDefinitions('composable', 'useCounter').map(({ file }) => file.path), [fixturePath(root, 'composables/useCounter.ts')]);
+        assert.deepStrictEqual(index.getUsages('tag', 'UserCard').map(({ file }) => file.path), [fixturePath(root, 'pages/index.vue')]);
+        assert.ok(index.getUsages('call', 'useCounter').some(({ file }) => file.path === fixturePath(root, 'pages/index.vue')));
+        assert.strictEqual(index.getFile(fixturePath(root, 'node_modules/dep/index.ts')), undefined);
+    });
+
+    test('reports the usages a file had before it was reindexed', async () => {
+        index = new ProjectIndex(undefined, [root]);
+
+        await index.ready();
+
+        const updates: IndexUpdate[] = [];
+        const subscription = index.onDidUpdate(update => updates.push(update));
+
+        writeFixtureFile(root, 'pages/index.vue', vueFile('', '<UserProfile />'));
+
+        await index.reindex();
+
+        subscription.dispose();
+
+        const pagePath = fixturePath(root, 'pages/index.vue');
+
+        assert.strictEqual(updates.length, 1);
+        assert.ok(updates[0].paths.includes(pagePath));
+        assert.ok(updates[0].previousUsages.get(pagePath)?.some(usage => usage.kind === 'tag' && usage.name === 'UserCard'));
+        assert.deepStrictEqual(index.getUsages('tag', 'UserCard'), []);
+        assert.strictEqual(index.getUsages('tag', 'UserProfile').length, 1);
+    });
+
+    test('retries the build after a failure', async () => {
+        let loads = 0;
+
+        // Stockage dont la première lecture échoue, comme une erreur passagère à l'activation
+        const storage = {
+            load: async () => {
+                if (++loads === 1) {
+                    throw new Error('Storage unavailable');
+                }
+
+                return new Map<string, IndexedFile>();
+            },
+            scheduleSave: () => undefined,
+            flush: () => undefined
+        } as unknown as IndexStorage;
+
+        index = new ProjectIndex(storage, [root]);
+
+        await assert.rejects(index.ready(), /Storage unavailable/);
+        await index.ready();
+
+        assert.strictEqual(loads, 2);
+        assert.ok(index.getFile(fixturePath(root, 'composables/useCounter.ts')));
+    });
+});
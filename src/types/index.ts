@@ -11,6 +11,13 @@ export interface NuxtComponentInfo {
     path: string;
     isAutoImported: boolean;
     exportType?: string
+    /** Props, emits, slots, models et membres exposés, pour les composants */
+    meta?: ComponentMeta;
+    /** Racine du layer et dossier de composants d'où vient le fichier, pour les composants */
+    layer?: string;
+    componentsDir?: string;
+    /** Autres fichiers du même layer résolus vers le même nom : Nuxt n'en garde qu'un */
+    collisions?: string[];
     members?: {
         state?: string[];
         getters?: string[];
@@ -18,4 +25,213 @@ export interface NuxtComponentInfo {
         methods?: string[];
         variables?: string[];
     };
-}
\ No newline at end of file
+}
+
+/**
+ * Kinds of Nuxt symbols recorded by the project index
+ */
+export type NuxtSymbolKind = 'component' | 'composable' | 'util' | 'store' | 'layout' | 'middleware' | 'plugin';
+
+/**
+ * A symbol defined in an indexed file
+ */
+export interface IndexedDefinition {
+    kind: NuxtSymbolKind;
+    name: string;
+    line: number;
+    character: number;
+    exportType?: string;
+}
+
+/**
+ * Kinds of usages recorded by the project index
+ */
+export type IndexedUsageKind = 'tag' | 'call' | 'layout' | 'middleware' | 'dynamicComponent';
+
+/**
+ * A usage of a Nuxt symbol found in an indexed file
+ */
+export interface IndexedUsage {
+    kind: IndexedUsageKind;
+    name: string;
+    line: number;
+    character: number;
+}
+
+/**
+ * Everything the project index knows about a single file
+ */
+export interface IndexedFile {
+    path: string;
+    mtime: number;
+    size: number;
+    identifiers: string[];
+    definitions: IndexedDefinition[];
+    usages: IndexedUsage[];
+}
+
+/**
+ * Static (literal) value of a nuxt.config file
+ */
+export type NuxtConfigObject = Record<string, unknown>;
+
+/**
+ * A components directory as resolved from the `components` option of nuxt.config
+ */
+export interface ResolvedComponentsDir {
+    path: string;
+    prefix: string;
+    pathPrefix: boolean;
+    global: boolean;
+    island: boolean;
+    extensions: string[];
+}
+
+/**
+ * Directories Nuxt scans for a layer, resolved from `srcDir` and `dir.*`
+ */
+export interface NuxtDirectories {
+    rootDir: string;
+    srcDir: string;
+    pages: string;
+    layouts: string;
+    middleware: string;
+    plugins: string;
+    /** Dossiers auto-importés contenant des composables (`composables` + `imports.dirs`) */
+    composables: string[];
+    /** Dossiers auto-importés contenant des utilitaires (`utils`, `shared/utils` en Nuxt 4) */
+    utils: string[];
+    stores: string[];
+    server: string;
+}
+
+/**
+ * What a file is for Nuxt, based on the directory it lives in
+ */
+export interface NuxtFileRoles {
+    component: boolean;
+    page: boolean;
+    layout: boolean;
+    middleware: boolean;
+    plugin: boolean;
+    composable: boolean;
+    util: boolean;
+    store: boolean;
+}
+
+/**
+ * A Nuxt layer: the project itself or a layer it extends
+ */
+export interface NuxtLayer {
+    rootDir: string;
+    srcDir: string;
+    dirs: NuxtDirectories;
+    configFile: string | null;
+    config: NuxtConfigObject;
+    /** 0 pour le projet ; plus la valeur est basse, plus le layer est prioritaire */
+    priority: number;
+}
+
+/**
+ * A name auto-imported by Nuxt, as declared in the files generated in `.nuxt`
+ */
+export interface AutoImportEntry {
+    name: string;
+    filePath: string;
+    exportName: string;
+}
+
+/**
+ * Components and functions auto-imported by Nuxt, read from `.nuxt/components.d.ts` and `.nuxt/types/imports.d.ts`
+ */
+export interface NuxtImportMap {
+    components: Map<string, AutoImportEntry>;
+    imports: Map<string, AutoImportEntry>;
+}
+
+/**
+ * A Nuxt symbol used at a position of a document (tag, `useX()` call, layout or middleware name...)
+ */
+export interface NuxtSymbolAtPosition {
+    kind: NuxtSymbolKind;
+    /** Nom Nuxt du symbole (`UserCard` pour `<user-card>`, identifiant du store pour `useCartStore`) */
+    name: string;
+    line: number;
+    character: number;
+    length: number;
+}
+
+/**
+ * Where a Nuxt symbol is defined
+ */
+export interface NuxtSymbolDefinition {
+    kind: NuxtSymbolKind;
+    name: string;
+    filePath: string;
+    line: number;
+    character: number;
+}
+
+/**
+ * An auto-imported name defined by a file and by other files of the same layer
+ */
+export interface NuxtNameCollision {
+    definition: NuxtSymbolDefinition;
+    /** Les autres définitions du même nom ; Nuxt n'en retient qu'une */
+    others: NuxtSymbolDefinition[];
+}
+
+/**
+ * A prop declared by a component (`defineProps`, `withDefaults`)
+ */
+export interface ComponentProp {
+    name: string;
+    type?: string;
+    required: boolean;
+    /** Valeur par défaut telle qu'écrite dans le code source */
+    default?: string;
+    /** Valeurs d'un type union de littéraux (`'sm' | 'md'` → `'sm'`, `'md'`), pour la complétion */
+    values?: string[];
+}
+
+/**
+ * Public API of a component: the props, events and slots its consumers can use
+ */
+export interface ComponentMeta {
+    /** Inclut les props déclarées par `defineModel` */
+    props: ComponentProp[];
+    /** Inclut les événements `update:*` déclarés par `defineModel` */
+    emits: string[];
+    slots: string[];
+    /** `defineModel()` → `modelValue`, `defineModel('count')` → `count` */
+    models: ComponentProp[];
+    /** Membres exposés par `defineExpose` ou l'option `expose` */
+    exposed: string[];
+    /** Vrai si des props ne peuvent pas être connues statiquement (type importé, spread, mixins...) */
+    dynamicProps: boolean;
+    /** Vrai si des événements ne peuvent pas être connus statiquement */
+    dynamicEmits: boolean;
+    /** Vrai si des slots ne peuvent pas être connus statiquement (`<slot :name>`, type importé) */
+    dynamicSlots: boolean;
+}
+
+/**
+ * A member of the object returned by a composable (`return { items, total, add }`)
+ */
+export interface ComposableMember {
+    name: string;
+    /** Déduit de la déclaration : `ref()` / `useState()` → `ref`, `computed()` → `computed`, fonction → `function` */
+    kind: 'ref' | 'computed' | 'reactive' | 'function' | 'value';
+    /** Type annoté ou argument générique (`ref<Item[]>()` → `Ref<Item[]>`), signature pour une fonction */
+    type?: string;
+}
+
+/**
+ * Signature and returned members of a composable, shown when hovering its calls
+ */
+export interface ComposableSummary {
+    name: string;
+    /** `useCart(initial?: Item[]): CartState` */
+    signature: string;
+    members: ComposableMember[];
+}
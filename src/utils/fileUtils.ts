@@ -7,19 +7,21 @@ import * as path from 'path';
  */
 export class FileUtils {
     /**
-     * Find all directories with a specific name in the project
+     * Find all directories with a specific name in the project and its layers
      */
-    static async findAllDirsByName(nuxtProjectRoot: string, dirName: string): Promise<string[]> {
-        const dirs: string[] = [];
+    static async findAllDirsByName(rootDirs: string | string[], dirName: string): Promise<string[]> {
+        const dirs = new Set<string>();
 
-        if (!nuxtProjectRoot) return dirs;
+        const roots = (Array.isArray(rootDirs) ? rootDirs : [rootDirs]).filter(Boolean);
 
-        const initialDirs = [
-            nuxtProjectRoot,
-            path.join(nuxtProjectRoot, 'app'),
-            path.join(nuxtProjectRoot, 'app', 'base'),
-            path.join(nuxtProjectRoot, 'app', 'modules')
-        ].filter(dir => fs.existsSync(dir));
+        if (roots.length === 0) return [];
+
+        const initialDirs = roots.flatMap(root => [
+            root,
+            path.join(root, 'app'),
+            path.join(root, 'app', 'base'),
+            path.join(root, 'app', 'modules')
+        ]).filter(dir => fs.existsSync(dir));
 
         for (const initialDir of initialDirs) {
             const recurse = (dir: string) => {
@@ -30,7 +32,7 @@ export class FileUtils {
                         const fullPath = path.join(dir, entry.name);
                         if (entry.isDirectory()) {
                             if (entry.name === dirName) {
-                                dirs.push(fullPath);
+                                dirs.add(fullPath);
                             }
 
                             if (entry.name !== 'node_modules' && entry.name !== '.nuxt' && entry.name !== '.output') {
@@ -46,7 +48,7 @@ export class FileUtils {
             recurse(initialDir);
         }
 
-        return dirs;
+        return [...dirs];
     }
 
     /**
@@ -0,0 +1,148 @@
+import * as path from 'path';
+import type { ResolvedComponentsDir } from '../types';
+
+/**
+ * Reproduces the naming rules Nuxt applies to auto-imported components
+ */
+export class NamingUtils {
+    private static readonly splitters = ['-', '_', '/', '.'];
+
+    // `Chart.client.vue`, `Chart.server.vue`, `Chart.global.vue`, `Chart.island.vue` → `Chart`
+    private static readonly componentSuffixRegex = /(\.(client|server))?(\.global|\.island)*$/;
+
+    /**
+     * Découpe une chaîne sur les séparateurs et les changements de casse (comme `splitByCase` de scule)
+     */
+    static splitByCase(str: string): string[] {
+        const parts: string[] = [];
+
+        if (!str) {
+            return parts;
+        }
+
+        let buffer = '';
+        let previousUpper: boolean | undefined;
+        let previousSplitter: boolean | undefined;
+
+        for (const char of str) {
+            const isSplitter = this.splitters.includes(char);
+
+            if (isSplitter) {
+                parts.push(buffer);
+                buffer = '';
+                previousUpper = undefined;
+                continue;
+            }
+
+            const isUpper = /\d/.test(char) ? undefined : char !== char.toLowerCase();
+
+            if (previousSplitter === false) {
+                if (previousUpper === false && isUpper === true) {
+                    parts.push(buffer);
+                    buffer = char;
+                    previousUpper = isUpper;
+                    continue;
+                }
+
+                if (previousUpper === true && isUpper === false && buffer.length > 1) {
+                    const lastChar = buffer[buffer.length - 1];
+
+                    parts.push(buffer.slice(0, -1));
+                    buffer = lastChar + char;
+                    previousUpper = isUpper;
+                    continue;
+                }
+            }
+
+            buffer += char;
+            previousUpper = isUpper;
+            previousSplitter = isSplitter;
+        }
+
+        parts.push(buffer);
+
+        return parts;
+    }
+
+    /**
+     * Convertit une chaîne ou des segments en PascalCase
+     */
+    static pascalCase(input: string | string[]): string {
+        const parts = Array.isArray(input) ? input : this.splitByCase(input);
+
+        return parts
+            .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+            .join('');
+    }
+
+    /**
+     * Convertit un nom kebab-case en camelCase, comme Vue pour les props (`user-id` → `userId`)
+     */
+    static camelize(str: string): string {
+        return str.replace(/-(\w)/g, (_, char: string) => char.toUpperCase());
+    }
+
+    /**
+     * Supprime les segments du préfixe déjà présents au début du nom de fichier
+     * (ex: `user/UserCard.vue` → `UserCard` et non `UserUserCard`)
+     */
+    static resolveComponentNameSegments(fileName: string, prefixParts: string[]): string[] {
+        const fileNameParts = this.splitByCase(fileName);
+        const fileNamePartsContent = fileNameParts.join('/').toLowerCase();
+        const componentNameParts = [...prefixParts];
+        const matchedSuffix: string[] = [];
+
+        let index = prefixParts.length - 1;
+
+        while (index >= 0) {
+            matchedSuffix.unshift(...this.splitByCase(prefixParts[index] || '').map(part => part.toLowerCase()));
+
+            const matchedSuffixContent = matchedSuffix.join('/');
+
+            if (
+                fileNamePartsContent === matchedSuffixContent ||
+                fileNamePartsContent.startsWith(matchedSuffixContent + '/') ||
+                // ex: Item/Item/Item.vue → ItemItem
+                (prefixParts[index].toLowerCase() === fileNamePartsContent &&
+                    prefixParts[index + 1] &&
+                    prefixParts[index] === prefixParts[index + 1])
+            ) {
+                componentNameParts.length = index;
+            }
+
+            index--;
+        }
+
+        return [...componentNameParts, ...fileNameParts];
+    }
+
+    /**
+     * Mode de rendu d'un composant d'après son suffixe (`.client`, `.server`), `all` sinon
+     */
+    static getComponentMode(filePath: string): 'client' | 'server' | 'all' {
+        const fileName = path.basename(filePath, path.extname(filePath));
+        const mode = fileName.match(/\.(client|server)(\.global|\.island)*$/)?.[1];
+
+        return mode === 'client' || mode === 'server' ? mode : 'all';
+    }
+
+    /**
+     * Calcule le nom auto-importé d'un composant selon la configuration de son dossier
+     */
+    static resolveComponentName(filePath: string, dir: ResolvedComponentsDir): string {
+        let fileName = path.basename(filePath, path.extname(filePath)).replace(this.componentSuffixRegex, '');
+
+        if (fileName.toLowerCase() === 'index') {
+            fileName = dir.pathPrefix === false ? path.basename(path.dirname(filePath)) : '';
+        }
+
+        const relativeDir = path.relative(dir.path, path.dirname(filePath)).split(path.sep).join('/');
+
+        const prefixParts = [
+            ...(dir.prefix ? this.splitByCase(dir.prefix) : []),
+            ...(dir.pathPrefix !== false ? this.splitByCase(relativeDir) : [])
+        ];
+
+        return this.pascalCase(this.resolveComponentNameSegments(fileName.replace(/["']/g, ''), prefixParts));
+    }
+}